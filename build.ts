@@ -3,6 +3,7 @@ import plugin from "bun-plugin-tailwind";
 import { existsSync } from "fs";
 import { rm } from "fs/promises";
 import path from "path";
+import { DUCKDB_ASSET_BASE_PATH, DUCKDB_ASSET_FILES } from "./src/lib/duckdb-assets";
 
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
   console.log(`
@@ -131,17 +132,35 @@ const result = await Bun.build({
   sourcemap: "linked",
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
-    "process.env.VITE_AZURE_OPENAI_ENDPOINT": JSON.stringify(process.env.VITE_AZURE_OPENAI_ENDPOINT || ""),
-    "process.env.VITE_AZURE_OPENAI_API_KEY": JSON.stringify(process.env.VITE_AZURE_OPENAI_API_KEY || ""),
-    "process.env.VITE_AZURE_OPENAI_DEPLOYMENT": JSON.stringify(process.env.VITE_AZURE_OPENAI_DEPLOYMENT || ""),
-    "process.env.VITE_AZURE_OPENAI_API_VERSION": JSON.stringify(process.env.VITE_AZURE_OPENAI_API_VERSION || ""),
+    "process.env.BUN_PUBLIC_DUCKDB_CDN_FALLBACK": JSON.stringify(process.env.BUN_PUBLIC_DUCKDB_CDN_FALLBACK || ""),
   },
   ...cliConfig,
 });
 
+// Workers are not reachable from the HTML entrypoints, so they are built separately
+const workerResult = await Bun.build({
+  entrypoints: [path.resolve("src/lib/parse.worker.ts")],
+  outdir,
+  naming: "[name].js",
+  minify: true,
+  target: "browser",
+  format: "esm",
+  sourcemap: "linked",
+});
+
+// Self-host the DuckDB Wasm bundles so the app does not depend on jsDelivr
+const duckdbAssets = await Promise.all(
+  Object.values(DUCKDB_ASSET_FILES).map(async fileName => {
+    const source = Bun.resolveSync(`@duckdb/duckdb-wasm/dist/${fileName}`, import.meta.dir);
+    const target = path.join(outdir, DUCKDB_ASSET_BASE_PATH, fileName);
+    const size = await Bun.write(target, Bun.file(source));
+    return { path: target, kind: "asset", size };
+  }),
+);
+
 const end = performance.now();
 
-const outputTable = result.outputs.map(output => ({
+const outputTable = [...result.outputs, ...workerResult.outputs, ...duckdbAssets].map(output => ({
   File: path.relative(process.cwd(), output.path),
   Type: output.kind,
   Size: formatFileSize(output.size),
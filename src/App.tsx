@@ -1,91 +1,122 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ExcelUploader } from "@/components/excel-uploader";
-import { SheetChart } from "@/components/sheet-chart";
-import { SheetTable } from "@/components/sheet-table";
-import { QueryPanel, type QueryResult } from "@/components/query-panel";
+import { ChartBuilder } from "@/components/chart-builder";
+import { SheetProfile } from "@/components/sheet-profile";
+import { SheetEditor } from "@/components/sheet-editor";
+import { QueryPanel, type QueryPanelRef, type QueryResult } from "@/components/query-panel";
 import { RangeSelector } from "@/components/range-selector";
 import { ChatBot } from "@/components/chat-bot";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ReportBuilder } from "@/components/report-builder";
+import { WorkbookList } from "@/components/workbook-list";
+import { PersistenceSettings } from "@/components/persistence-settings";
+import { ColumnPrivacyEditor, type TablePrivacyState } from "@/components/column-privacy-editor";
+import { DashboardView } from "@/components/dashboard-view";
+import { Button } from "@/components/ui/button";
 import "./index.css";
 import type { ParsedWorkbook } from "@/lib/excel";
-import { applySelection, type ProcessedWorkbook, type WorkbookSelectionConfig } from "@/lib/selection";
-import { dropTable, getDuckDB, registerCsvAsTable, runQuery } from "@/lib/duckdb";
-
-interface SheetTableMapping {
-  [sheetName: string]: string;
-}
-
-function normaliseTableName(fileName: string, sheetName: string, index: number) {
-  const baseName = `${fileName.replace(/\.[^/.]+$/, "")}_${sheetName || `sheet_${index + 1}`}`
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "_")
-    .replace(/^_+|_+$/g, "");
-  return baseName.length > 0 ? baseName : `sheet_${index + 1}`;
-}
-
-function createDefaultSelectionConfig(parsed: ParsedWorkbook): WorkbookSelectionConfig {
-  const sheetsConfig: NonNullable<WorkbookSelectionConfig["sheets"]> = {};
-  parsed.sheets.forEach(sheet => {
-    sheetsConfig[sheet.name] = {
-      range: "",
-      firstRowIsHeader: true,
-    };
-  });
-  return { sheets: sheetsConfig };
-}
+import { applySelection, type WorkbookSelectionConfig } from "@/lib/selection";
+import { arrowTableToObjects, getDuckDB, runQuery } from "@/lib/duckdb";
+import type { ReportQuery, ReportSheet } from "@/lib/report";
+import {
+  clearPersistedSession,
+  deleteWorkbookSnapshot,
+  getPersistenceBackend,
+  isPersistenceEnabled,
+  restorePersistedSession,
+  saveTableSnapshot,
+  saveWorkbookSnapshot,
+  setPersistenceEnabled,
+} from "@/lib/persistence";
+import { clearQueryHistory } from "@/lib/query-history";
+import type { SheetEditLogs } from "@/lib/cell-edits";
+import { canWrapQuery, countGridRows, fetchGridColumns, type GridSource } from "@/lib/grid-query";
+import {
+  createDashboardTile,
+  defaultChartTitle,
+  EMPTY_DASHBOARD,
+  type Dashboard,
+  type PinnedTile,
+} from "@/lib/dashboard";
+import type { ChartSpec } from "@/lib/chart-spec";
+import { collectTableDigest, formatSchemaDigest, type TableDigest } from "@/lib/schema-digest";
+import {
+  applyColumnPrivacy,
+  buildResultPrivacy,
+  detectColumnPii,
+  resolveColumnPrivacy,
+  type ColumnPrivacy,
+  type PrivacySettings,
+  type PromptTableSchema,
+} from "@/lib/privacy";
+import { cn, createId } from "@/lib/utils";
+import {
+  collectTableNames,
+  createDefaultSelectionConfig,
+  createWorkbookNamespace,
+  dropWorkbookTables,
+  findFirstSheetWithData,
+  hasSheetData,
+  syncWorkbookTables,
+  type SessionWorkbook,
+} from "@/lib/session";
+
+// Cell edits are usually made in bursts; the views reading the table reload once they pause
+const EDIT_REFRESH_DELAY_MS = 800;
 
 export function App() {
   const [duckReady, setDuckReady] = useState(false);
   const [initialising, setInitialising] = useState(true);
   const [duckError, setDuckError] = useState<string | null>(null);
-  const [rawWorkbook, setRawWorkbook] = useState<ParsedWorkbook | null>(null);
-  const [processedWorkbook, setProcessedWorkbook] = useState<ProcessedWorkbook | null>(null);
-  const [selectionConfig, setSelectionConfig] = useState<WorkbookSelectionConfig>({ sheets: {} });
+  const [workbooks, setWorkbooks] = useState<SessionWorkbook[]>([]);
+  const [activeWorkbookId, setActiveWorkbookId] = useState<string | null>(null);
   const [selectedSheetName, setSelectedSheetName] = useState<string | null>(null);
-  const [tableMap, setTableMap] = useState<SheetTableMapping>({});
   const [isProcessing, setIsProcessing] = useState(false);
-
-  const syncTablesWithProcessed = useCallback(
-    async (processed: ProcessedWorkbook) => {
-      // Get previous tables and drop them
-      setTableMap(prevTableMap => {
-        const previousTables = Object.values(prevTableMap);
-        if (previousTables.length > 0) {
-          Promise.all(previousTables.map(name => dropTable(name))).catch(err => {
-            console.error("Failed to drop tables:", err);
-          });
-        }
-        return prevTableMap;
-      });
-
-      const newMap: SheetTableMapping = {};
-      for (const [index, sheet] of processed.sheets.entries()) {
-        if (sheet.rows.length === 0 || sheet.columns.length === 0) {
-          continue;
-        }
-
-        const tableName = normaliseTableName(processed.fileName, sheet.name, index);
-
-        try {
-          await registerCsvAsTable(tableName, sheet.csv);
-          newMap[sheet.name] = tableName;
-        } catch (err) {
-          console.error(`Failed to register table ${tableName}:`, err);
-          throw err;
-        }
-      }
-
-      setTableMap(newMap);
-      return newMap;
-    },
-    [],
-  );
+  const [reportQueries, setReportQueries] = useState<ReportQuery[]>([]);
+  const [persistenceEnabled, setPersistenceEnabledState] = useState(isPersistenceEnabled);
+  const [persistenceStatus, setPersistenceStatus] = useState<string | null>(null);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>({});
+  const [tableDigests, setTableDigests] = useState<TableDigest[]>([]);
+  const [editLogs, setEditLogs] = useState<SheetEditLogs>({});
+  const [view, setView] = useState<"workspace" | "dashboard">("workspace");
+  const [dashboard, setDashboard] = useState<Dashboard>(EMPTY_DASHBOARD);
+  // Bumped whenever tables are registered or dropped, so dashboard tiles re-run their queries
+  const [dataVersion, setDataVersion] = useState(0);
+  // Bumped per table after cell edits, so only the views that read the edited table reload
+  const [tableVersions, setTableVersions] = useState<Record<string, number>>({});
+  const editRefreshTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Uploads of several files run back to back, so keep the latest session outside of render closures
+  const workbooksRef = useRef<SessionWorkbook[]>([]);
+
+  const commitWorkbooks = useCallback((next: SessionWorkbook[]) => {
+    workbooksRef.current = next;
+    setWorkbooks(next);
+  }, []);
 
   useEffect(() => {
     (async () => {
       try {
         await getDuckDB();
+        if (isPersistenceEnabled()) {
+          try {
+            const restored = await restorePersistedSession();
+            if (restored.length > 0) {
+              commitWorkbooks(restored);
+              setDataVersion(version => version + 1);
+              const last = restored[restored.length - 1]!;
+              setActiveWorkbookId(last.id);
+              setSelectedSheetName(findFirstSheetWithData(last.processed)?.name ?? null);
+              setPersistenceStatus(`Restored ${restored.length} workbook(s) from local storage`);
+            }
+          } catch (error) {
+            console.error("Failed to restore local data:", error);
+            setPersistenceStatus(
+              `Failed to restore local data: ${error instanceof Error ? error.message : "unknown error"}`,
+            );
+          }
+        }
         setDuckReady(true);
       } catch (error) {
         setDuckError(error instanceof Error ? error.message : "Failed to initialize DuckDB");
@@ -120,30 +151,176 @@ export function App() {
       window.removeEventListener("error", handleError);
       window.removeEventListener("unhandledrejection", handleUnhandledRejection);
     };
+  }, [commitWorkbooks]);
+
+  const persistWorkbook = useCallback(
+    (workbook: SessionWorkbook, previousTableMap?: SessionWorkbook["tableMap"]) => {
+      if (!persistenceEnabled) {
+        return;
+      }
+      saveWorkbookSnapshot(workbook, previousTableMap).catch(error => {
+        console.error("Failed to save workbook locally:", error);
+        setPersistenceStatus(`Failed to save "${workbook.raw.fileName}" locally`);
+      });
+    },
+    [persistenceEnabled],
+  );
+
+  // Cell edits change one table in place. Once the edits pause, the views reading that table
+  // reload, its digest is collected again and a new snapshot of it is saved.
+  const handleTableEdited = useCallback(
+    (tableName: string) => {
+      const timers = editRefreshTimersRef.current;
+      clearTimeout(timers.get(tableName));
+      timers.set(
+        tableName,
+        setTimeout(() => {
+          timers.delete(tableName);
+          setTableVersions(prev => ({ ...prev, [tableName]: (prev[tableName] ?? 0) + 1 }));
+          collectTableDigest(tableName)
+            .then(digest =>
+              setTableDigests(prev => prev.map(existing => (existing.tableName === tableName ? digest : existing))),
+            )
+            .catch(error => console.error(`Failed to profile table ${tableName}:`, error));
+          if (persistenceEnabled) {
+            saveTableSnapshot(tableName).catch(error => {
+              console.error("Failed to save edited table locally:", error);
+              setPersistenceStatus(`Failed to save the edits to "${tableName}" locally`);
+            });
+          }
+        }, EDIT_REFRESH_DELAY_MS),
+      );
+    },
+    [persistenceEnabled],
+  );
+
+  useEffect(() => {
+    const timers = editRefreshTimersRef.current;
+    return () => timers.forEach(timer => clearTimeout(timer));
   }, []);
 
-  const handleWorkbookParsed = useCallback(async (parsed: ParsedWorkbook) => {
-    setIsProcessing(true);
-    setDuckError(null);
+  const handlePersistenceChange = useCallback(async (enabled: boolean) => {
+    setPersistenceEnabled(enabled);
+    setPersistenceEnabledState(enabled);
     try {
-      const defaultConfig = createDefaultSelectionConfig(parsed);
-      const processed = applySelection(parsed, defaultConfig);
+      if (enabled) {
+        await Promise.all(workbooksRef.current.map(workbook => saveWorkbookSnapshot(workbook)));
+        setPersistenceStatus(`Saved ${workbooksRef.current.length} workbook(s) locally`);
+      } else {
+        await clearPersistedSession();
+        setPersistenceStatus("Local workbooks removed. Data now lives only in this tab.");
+      }
+    } catch (error) {
+      console.error("Failed to update local storage:", error);
+      setPersistenceStatus(error instanceof Error ? error.message : "Failed to update local storage");
+    }
+  }, []);
 
-      await syncTablesWithProcessed(processed);
+  const handleClearLocalData = useCallback(async () => {
+    setPersistenceEnabled(false);
+    setPersistenceEnabledState(false);
+    try {
+      await Promise.all([clearPersistedSession(), clearQueryHistory()]);
+      setPersistenceStatus("Local workbooks, tables and query history cleared");
+    } catch (error) {
+      console.error("Failed to clear local data:", error);
+      setPersistenceStatus(error instanceof Error ? error.message : "Failed to clear local data");
+    }
+  }, []);
 
-      setRawWorkbook(parsed);
-      setSelectionConfig(defaultConfig);
-      setProcessedWorkbook(processed);
+  const handleWorkbookParsed = useCallback(
+    async (parsed: ParsedWorkbook) => {
+      setIsProcessing(true);
+      setDuckError(null);
+      try {
+        const current = workbooksRef.current;
+        // Uploading a file with the same name again replaces that workbook and keeps its table names
+        const existing = current.find(workbook => workbook.raw.fileName === parsed.fileName);
+        const namespace =
+          existing?.namespace ??
+          createWorkbookNamespace(
+            parsed.fileName,
+            current.map(workbook => workbook.namespace),
+          );
+        const config = createDefaultSelectionConfig(parsed);
+        const processed = applySelection(parsed, config);
+        const tableMap = await syncWorkbookTables(
+          namespace,
+          processed,
+          existing?.tableMap,
+          collectTableNames(current.filter(workbook => workbook !== existing)),
+        );
+
+        const entry: SessionWorkbook = {
+          id: existing?.id ?? createId(),
+          namespace,
+          raw: parsed,
+          config,
+          processed,
+          tableMap,
+        };
+        commitWorkbooks(
+          existing
+            ? workbooksRef.current.map(workbook => (workbook.id === existing.id ? entry : workbook))
+            : [...workbooksRef.current, entry],
+        );
+        setDataVersion(version => version + 1);
+        setActiveWorkbookId(entry.id);
+        setSelectedSheetName(findFirstSheetWithData(processed)?.name ?? null);
+        persistWorkbook(entry, existing?.tableMap);
+      } catch (error) {
+        setDuckError(error instanceof Error ? error.message : "Failed to load Excel file");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [commitWorkbooks, persistWorkbook],
+  );
 
-      const firstSheetWithData =
-        processed.sheets.find(sheet => sheet.rows.length > 0 && sheet.columns.length > 0) ?? processed.sheets[0];
-      setSelectedSheetName(firstSheetWithData?.name ?? null);
-    } catch (error) {
-      setDuckError(error instanceof Error ? error.message : "Failed to load Excel file");
-    } finally {
-      setIsProcessing(false);
+  const handleRemoveWorkbook = useCallback(
+    async (id: string) => {
+      const target = workbooksRef.current.find(workbook => workbook.id === id);
+      if (!target) {
+        return;
+      }
+      setIsProcessing(true);
+      setDuckError(null);
+      try {
+        await dropWorkbookTables(target.tableMap);
+        if (persistenceEnabled) {
+          await deleteWorkbookSnapshot(target);
+        }
+        const remaining = workbooksRef.current.filter(workbook => workbook.id !== id);
+        commitWorkbooks(remaining);
+        setDataVersion(version => version + 1);
+        if (activeWorkbookId === id) {
+          const fallback = remaining[remaining.length - 1] ?? null;
+          setActiveWorkbookId(fallback?.id ?? null);
+          setSelectedSheetName(fallback ? findFirstSheetWithData(fallback.processed)?.name ?? null : null);
+        }
+      } catch (error) {
+        setDuckError(error instanceof Error ? error.message : "Failed to remove workbook");
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [activeWorkbookId, commitWorkbooks, persistenceEnabled],
+  );
+
+  const handleSelectWorkbook = useCallback((id: string) => {
+    const target = workbooksRef.current.find(workbook => workbook.id === id);
+    if (!target) {
+      return;
     }
-  }, [syncTablesWithProcessed]);
+    setActiveWorkbookId(id);
+    setSelectedSheetName(findFirstSheetWithData(target.processed)?.name ?? null);
+  }, []);
+
+  const activeWorkbook = useMemo(() => {
+    return workbooks.find(workbook => workbook.id === activeWorkbookId) ?? null;
+  }, [workbooks, activeWorkbookId]);
+
+  const processedWorkbook = activeWorkbook?.processed ?? null;
 
   const selectedSheet = useMemo(() => {
     if (!processedWorkbook || !selectedSheetName) {
@@ -153,98 +330,221 @@ export function App() {
   }, [processedWorkbook, selectedSheetName]);
 
   const selectedTableName = useMemo(() => {
-    return selectedSheetName ? tableMap[selectedSheetName] ?? null : null;
-  }, [selectedSheetName, tableMap]);
+    return activeWorkbook && selectedSheetName ? activeWorkbook.tableMap[selectedSheetName] ?? null : null;
+  }, [activeWorkbook, selectedSheetName]);
+
+  // Changes when the selected table is registered again or edited
+  const selectedDataKey = `${dataVersion}:${selectedTableName ? (tableVersions[selectedTableName] ?? 0) : 0}`;
+
+  const selectedChartSource = useMemo<GridSource | null>(
+    () => (selectedTableName ? { kind: "table", tableName: selectedTableName } : null),
+    [selectedTableName],
+  );
 
   const defaultQuery = useMemo(() => {
     return selectedTableName ? `SELECT * FROM "${selectedTableName}" LIMIT 100;` : "SELECT 1;";
   }, [selectedTableName]);
 
   const availableTables = useMemo(() => {
-    return Object.values(tableMap);
-  }, [tableMap]);
+    return collectTableNames(workbooks);
+  }, [workbooks]);
 
-  const handleSelectionConfigChange = useCallback(async (config: WorkbookSelectionConfig) => {
-    setSelectionConfig(config);
-    if (!rawWorkbook) {
-      return;
-    }
-    setIsProcessing(true);
-    setDuckError(null);
-    try {
-      const processed = applySelection(rawWorkbook, config);
-      await syncTablesWithProcessed(processed);
-      setProcessedWorkbook(processed);
-
-      if (selectedSheetName) {
-        const current = processed.sheets.find(sheet => sheet.name === selectedSheetName);
-        if (!current || current.rows.length === 0 || current.columns.length === 0) {
-          const fallback =
-            processed.sheets.find(sheet => sheet.rows.length > 0 && sheet.columns.length > 0) ?? processed.sheets[0];
-          setSelectedSheetName(fallback?.name ?? null);
+  const handleSelectionConfigChange = useCallback(
+    async (config: WorkbookSelectionConfig) => {
+      const target = workbooksRef.current.find(workbook => workbook.id === activeWorkbookId);
+      if (!target) {
+        return;
+      }
+      commitWorkbooks(
+        workbooksRef.current.map(workbook => (workbook.id === target.id ? { ...workbook, config } : workbook)),
+      );
+      setIsProcessing(true);
+      setDuckError(null);
+      try {
+        const processed = applySelection(target.raw, config);
+        const tableMap = await syncWorkbookTables(
+          target.namespace,
+          processed,
+          target.tableMap,
+          collectTableNames(workbooksRef.current.filter(workbook => workbook.id !== target.id)),
+        );
+        const updated: SessionWorkbook = { ...target, config, processed, tableMap };
+        commitWorkbooks(workbooksRef.current.map(workbook => (workbook.id === target.id ? updated : workbook)));
+        setDataVersion(version => version + 1);
+        persistWorkbook(updated, target.tableMap);
+
+        const current = selectedSheetName
+          ? processed.sheets.find(sheet => sheet.name === selectedSheetName)
+          : undefined;
+        if (!current || !hasSheetData(current)) {
+          setSelectedSheetName(findFirstSheetWithData(processed)?.name ?? null);
         }
-      } else if (processed.sheets.length > 0) {
-        const fallback =
-          processed.sheets.find(sheet => sheet.rows.length > 0 && sheet.columns.length > 0) ?? processed.sheets[0];
-        setSelectedSheetName(fallback?.name ?? null);
+      } catch (error) {
+        console.error("Error in handleSelectionConfigChange:", error);
+        const errorMessage = error instanceof Error ? error.message : "Failed to apply import settings";
+        setDuckError(errorMessage);
+      } finally {
+        setIsProcessing(false);
       }
-    } catch (error) {
-      console.error("Error in handleSelectionConfigChange:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to apply import settings";
-      setDuckError(errorMessage);
-    } finally {
-      setIsProcessing(false);
-    }
-  }, [rawWorkbook, selectedSheetName, syncTablesWithProcessed]);
+    },
+    [activeWorkbookId, commitWorkbooks, persistWorkbook, selectedSheetName],
+  );
 
+  // SELECT-like results stay in DuckDB: only their columns and row count are read here, and the
+  // grid, charts and exports page through them. Other statements run once and return their rows.
   const executeQuery = useCallback(async (sql: string): Promise<QueryResult> => {
-    const result = await runQuery(sql);
-    const array = typeof result.toArray === "function" ? result.toArray() : [];
-    const rows = array.map((row: any) => (typeof row.toJSON === "function" ? row.toJSON() : row));
-    const columns =
-      (result.schema?.fields?.map((field: { name: string }) => field.name) as string[] | undefined) ??
-      (rows[0] ? Object.keys(rows[0]) : []);
-    return {
-      columns,
-      rows,
-    };
+    if (await canWrapQuery(sql)) {
+      const source = { kind: "query", sql } as const;
+      const columns = await fetchGridColumns(source);
+      return { columns, rowCount: await countGridRows(source, {}), rows: null };
+    }
+    const result = arrowTableToObjects(await runQuery(sql));
+    return { ...result, rowCount: result.rows.length };
   }, []);
 
   // For ChatBot to execute queries
-  const queryPanelRef = useRef<{ setQuery: (query: string) => void; executeQuery: () => void }>(null);
-
-  const handleChatBotQuery = useCallback((query: string) => {
-    if (queryPanelRef.current) {
-      queryPanelRef.current.setQuery(query);
-      setTimeout(() => {
-        queryPanelRef.current?.executeQuery();
-      }, 100);
+  const queryPanelRef = useRef<QueryPanelRef>(null);
+
+  const handleChatBotQuery = useCallback(async (query: string) => {
+    const panel = queryPanelRef.current;
+    if (!panel) {
+      throw new Error("Select a sheet to open the SQL panel first");
     }
+    panel.setQuery(query);
+    return panel.executeQuery(query);
   }, []);
 
-  // Prepare table schemas for ChatBot
-  const tableSchemas = useMemo(() => {
-    if (!processedWorkbook) return {};
-    const schemas: Record<string, { columns: string[]; sampleRows: any[] }> = {};
-    processedWorkbook.sheets.forEach(sheet => {
-      const tableName = tableMap[sheet.name];
-      if (tableName) {
-        schemas[tableName] = {
-          columns: sheet.columns,
-          sampleRows: sheet.rows.slice(0, 3),
-        };
+  const handleAddToReport = useCallback((sql: string) => {
+    setReportQueries(prev => [...prev, { id: createId(), name: `Query ${prev.length + 1}`, sql }]);
+  }, []);
+
+  const handlePinToDashboard = useCallback((tile: PinnedTile) => {
+    setDashboard(current => ({ ...current, tiles: [...current.tiles, createDashboardTile(tile)] }));
+  }, []);
+
+  const handlePinSheetChart = useCallback(
+    (spec: ChartSpec) => {
+      if (selectedTableName) {
+        handlePinToDashboard({
+          kind: "chart",
+          title: defaultChartTitle(spec),
+          sql: `SELECT * FROM "${selectedTableName}"`,
+          spec,
+        });
       }
+    },
+    [handlePinToDashboard, selectedTableName],
+  );
+
+  const reportSheets = useMemo(() => {
+    const sheets: ReportSheet[] = [];
+    workbooks.forEach(workbook => {
+      workbook.processed.sheets.forEach(sheet => {
+        const tableName = workbook.tableMap[sheet.name];
+        if (tableName) {
+          sheets.push({ label: tableName, sheet });
+        }
+      });
+    });
+    return sheets;
+  }, [workbooks]);
+
+  // Column privacy for the assistant: detected PII plus the user's explicit choices per table
+  const tablePrivacy = useMemo(() => {
+    const tables: (TablePrivacyState & { rows: Record<string, unknown>[] })[] = [];
+    workbooks.forEach(workbook => {
+      workbook.processed.sheets.forEach(sheet => {
+        const tableName = workbook.tableMap[sheet.name];
+        if (!tableName) {
+          return;
+        }
+        const columns = sheet.columns.map(name => {
+          const pii = detectColumnPii(name, sheet.rows.map(row => row[name]));
+          return { name, pii, privacy: resolveColumnPrivacy(privacySettings, tableName, name, pii) };
+        });
+        tables.push({ tableName, columns, rows: sheet.rows });
+      });
+    });
+    return tables;
+  }, [workbooks, privacySettings]);
+
+  const handleColumnPrivacyChange = useCallback((tableName: string, columnName: string, privacy: ColumnPrivacy) => {
+    setPrivacySettings(prev => ({ ...prev, [tableName]: { ...prev[tableName], [columnName]: privacy } }));
+  }, []);
+
+  // Prepare table schemas for ChatBot; only values allowed by the column privacy settings are included
+  const tableSchemas = useMemo(() => {
+    const schemas: Record<string, PromptTableSchema> = {};
+    tablePrivacy.forEach(table => {
+      const policies = new Map(table.columns.map(column => [column.name, column]));
+      const columns = table.columns.map(column => column.name);
+      schemas[table.tableName] = {
+        columns,
+        sampleRows: applyColumnPrivacy(
+          columns,
+          table.rows.slice(0, 3),
+          name => policies.get(name) ?? { privacy: "name-only", pii: null },
+        ),
+      };
     });
     return schemas;
-  }, [processedWorkbook, tableMap]);
+  }, [tablePrivacy]);
+
+  // Profile the registered tables again whenever a workbook is uploaded, re-mapped or removed
+  useEffect(() => {
+    if (!duckReady) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const digests: TableDigest[] = [];
+      for (const tableName of availableTables) {
+        try {
+          digests.push(await collectTableDigest(tableName));
+        } catch (error) {
+          console.error(`Failed to profile table ${tableName}:`, error);
+        }
+      }
+      if (!cancelled) {
+        setTableDigests(digests);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [duckReady, availableTables]);
+
+  const schemaDigest = useMemo(() => {
+    if (tableDigests.length === 0) {
+      return undefined;
+    }
+    const policies = new Map(
+      tablePrivacy.map(table => [table.tableName, new Map(table.columns.map(column => [column.name, column]))]),
+    );
+    return formatSchemaDigest(
+      tableDigests,
+      (tableName, columnName) => policies.get(tableName)?.get(columnName) ?? { privacy: "name-only", pii: null },
+    );
+  }, [tableDigests, tablePrivacy]);
+
+  // Query results are matched to sheet columns by name; the strictest setting wins across tables
+  const resultPrivacy = useMemo(() => buildResultPrivacy(tablePrivacy), [tablePrivacy]);
 
   return (
     <div className="min-h-screen w-full bg-slate-950 text-slate-100">
       <header className="mb-6 px-4 py-6 sm:px-6">
         <h1 className="text-3xl font-bold">Excel Wizard</h1>
         <p className="text-sm text-slate-300">
-          Drag & drop Excel files to visualize and analyze data with shadcn/ui and DuckDB Wasm.
+          Drag & drop Excel, ODS, CSV or JSON files to visualize and analyze data with shadcn/ui and DuckDB Wasm.
         </p>
+        <div className="mt-4 flex gap-2">
+          <Button variant={view === "workspace" ? "secondary" : "outline"} size="sm" onClick={() => setView("workspace")}>
+            Workspace
+          </Button>
+          <Button variant={view === "dashboard" ? "secondary" : "outline"} size="sm" onClick={() => setView("dashboard")}>
+            Dashboard{dashboard.tiles.length > 0 ? ` (${dashboard.tiles.length})` : ""}
+          </Button>
+        </div>
       </header>
 
       <div className="space-y-6 px-4 sm:px-6">
@@ -254,84 +554,148 @@ export function App() {
           {duckError ? <p className="text-sm text-destructive">{duckError}</p> : null}
           {isProcessing ? <p className="text-sm text-muted-foreground">Updating data...</p> : null}
 
-          {/* Import Settings - Full Width */}
-          {rawWorkbook ? (
-            <RangeSelector
-              workbook={rawWorkbook}
-              config={selectionConfig}
-              onConfigChange={handleSelectionConfigChange}
-              disabled={isProcessing}
+          {view === "dashboard" ? (
+            <DashboardView
+              dashboard={dashboard}
+              onChange={setDashboard}
+              dataVersion={dataVersion}
+              tableVersions={tableVersions}
             />
           ) : null}
 
-          {/* Data Display & Query Section - Side by Side */}
-          {processedWorkbook && processedWorkbook.sheets.length > 0 ? (
-            <div className="grid gap-6 xl:grid-cols-2">
-              {/* Left Column - Sheet Data */}
-              <div className="flex min-w-0 flex-col gap-6">
-                <Card className="min-w-0">
-                  <CardHeader className="space-y-3">
+          {/* Hidden rather than unmounted, so the editor and results survive a visit to the dashboard */}
+          <div className={cn("space-y-6", view === "dashboard" && "hidden")}>
+            <PersistenceSettings
+              enabled={persistenceEnabled}
+              backend={getPersistenceBackend()}
+              onEnabledChange={handlePersistenceChange}
+              onClear={handleClearLocalData}
+              status={persistenceStatus}
+              disabled={!duckReady || isProcessing}
+            />
+
+            {workbooks.length > 0 ? (
+              <WorkbookList
+                workbooks={workbooks}
+                activeWorkbookId={activeWorkbookId}
+                onSelect={handleSelectWorkbook}
+                onRemove={handleRemoveWorkbook}
+                disabled={isProcessing}
+              />
+            ) : null}
+
+            {/* Import Settings - Full Width */}
+            {activeWorkbook ? (
+              <RangeSelector
+                key={activeWorkbook.id}
+                workbook={activeWorkbook.raw}
+                processed={activeWorkbook.processed}
+                config={activeWorkbook.config}
+                onConfigChange={handleSelectionConfigChange}
+                disabled={isProcessing}
+              />
+            ) : null}
+
+            {/* Data Display & Query Section - Side by Side */}
+            {processedWorkbook && processedWorkbook.sheets.length > 0 ? (
+              <div className="grid gap-6 xl:grid-cols-2">
+                {/* Left Column - Sheet Data */}
+                <div className="flex min-w-0 flex-col gap-6">
+                  <Card className="min-w-0">
+                    <CardHeader className="space-y-3">
+                      <div className="min-w-0">
+                        <CardTitle className="truncate">{processedWorkbook.fileName}</CardTitle>
+                        <CardDescription>Switch sheets to view data</CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground shrink-0">Sheet:</span>
+                        <Select
+                          value={selectedSheetName || processedWorkbook.sheets[0]?.name || ""}
+                          onValueChange={setSelectedSheetName}
+                        >
+                          <SelectTrigger className="w-full max-w-[200px]">
+                            <SelectValue placeholder="Select a sheet" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {processedWorkbook.sheets.map(sheet => (
+                              <SelectItem key={sheet.name} value={sheet.name}>
+                                {sheet.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="min-w-0">
+                      {activeWorkbook && selectedSheet && selectedTableName ? (
+                        <SheetEditor
+                          workbook={activeWorkbook}
+                          sheet={selectedSheet}
+                          tableName={selectedTableName}
+                          editLogs={editLogs}
+                          onEditLogsChange={setEditLogs}
+                          onTableChange={handleTableEdited}
+                          height={480}
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No data in this sheet.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  {selectedSheet && selectedTableName ? (
+                    <SheetProfile tableName={selectedTableName} refreshKey={selectedDataKey} />
+                  ) : null}
+
+                  {/* Chart below table */}
+                  {selectedSheet && selectedTableName && selectedChartSource ? (
                     <div className="min-w-0">
-                      <CardTitle className="truncate">{processedWorkbook.fileName}</CardTitle>
-                      <CardDescription>Switch sheets to view data</CardDescription>
+                      <ChartBuilder
+                        source={selectedChartSource}
+                        sourceLabel={selectedTableName}
+                        refreshKey={selectedDataKey}
+                        onPin={handlePinSheetChart}
+                      />
                     </div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm text-muted-foreground shrink-0">Sheet:</span>
-                      <Select
-                        value={selectedSheetName || processedWorkbook.sheets[0]?.name || ""}
-                        onValueChange={setSelectedSheetName}
-                      >
-                        <SelectTrigger className="w-full max-w-[200px]">
-                          <SelectValue placeholder="Select a sheet" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {processedWorkbook.sheets.map(sheet => (
-                            <SelectItem key={sheet.name} value={sheet.name}>
-                              {sheet.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="min-w-0">
-                    {selectedSheet ? (
-                      <div className="overflow-auto">
-                        <SheetTable columns={selectedSheet.columns} rows={selectedSheet.rows} />
-                      </div>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">No data in this sheet.</p>
-                    )}
-                  </CardContent>
-                </Card>
-
-                {/* Chart below table */}
-                {selectedSheet ? (
-                  <div className="min-w-0">
-                    <SheetChart sheetName={selectedSheet.name} columns={selectedSheet.columns} rows={selectedSheet.rows} />
-                  </div>
-                ) : null}
+                  ) : null}
+                </div>
+
+                {/* Right Column - SQL Query */}
+                <div className="min-w-0">
+                  <QueryPanel
+                    ref={queryPanelRef}
+                    availableTables={availableTables}
+                    defaultQuery={defaultQuery}
+                    onExecute={executeQuery}
+                    onAddToReport={handleAddToReport}
+                    onPinToDashboard={handlePinToDashboard}
+                  />
+                </div>
               </div>
-
-              {/* Right Column - SQL Query */}
-              <div className="min-w-0">
-                <QueryPanel
-                  ref={queryPanelRef}
-                  key={processedWorkbook?.fileName ?? "no-file"}
-                  availableTables={availableTables}
-                  defaultQuery={defaultQuery}
-                  onExecute={executeQuery}
-                />
-              </div>
-            </div>
-          ) : null}
+            ) : null}
+
+            {tablePrivacy.length > 0 ? (
+              <ColumnPrivacyEditor tables={tablePrivacy} onChange={handleColumnPrivacyChange} />
+            ) : null}
+
+            {availableTables.length > 0 ? (
+              <ReportBuilder
+                queries={reportQueries}
+                onQueriesChange={setReportQueries}
+                sheets={reportSheets}
+                disabled={isProcessing}
+              />
+            ) : null}
+          </div>
       </div>
 
       {/* ChatBot - Only show when data is loaded */}
-      {processedWorkbook && processedWorkbook.sheets.length > 0 && (
+      {availableTables.length > 0 && (
         <ChatBot
           availableTables={availableTables}
           tableSchemas={tableSchemas}
+          schemaDigest={schemaDigest}
+          resultPrivacy={resultPrivacy}
           onExecuteQuery={handleChatBotQuery}
         />
       )}
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SpecChart } from "@/components/spec-chart";
+import { describeChartColumns, runChartQuery, type ChartColumn, type ChartQueryResult } from "@/lib/chart-query";
+import {
+  CHART_AGGREGATIONS,
+  CHART_KINDS,
+  CHART_LAYOUTS,
+  CHART_SCALES,
+  CHART_SORTS,
+  isRadialChart,
+  type ChartSpec,
+} from "@/lib/chart-spec";
+import { isNumericColumnType } from "@/lib/column-stats";
+import type { GridSource } from "@/lib/grid-query";
+
+interface ChartBuilderProps {
+  /** A registered table, or the SQL (or rows) of a query result */
+  source: GridSource;
+  /** Names the data in the description, e.g. the table name */
+  sourceLabel: string;
+  /** The chart is queried again whenever this changes, e.g. after the sheet is re-registered */
+  refreshKey?: unknown;
+  /** Shows a "Pin to dashboard" action for the current settings */
+  onPin?: (spec: ChartSpec) => void;
+}
+
+const NO_SERIES = "__none__";
+
+const KIND_LABELS: Record<ChartSpec["kind"], string> = {
+  bar: "Bar",
+  line: "Line",
+  area: "Area",
+  pie: "Pie",
+  doughnut: "Doughnut",
+  scatter: "Scatter",
+};
+
+const SORT_LABELS: Record<NonNullable<ChartSpec["sort"]>, string> = {
+  none: "Unsorted",
+  "x-asc": "Category A→Z",
+  "x-desc": "Category Z→A",
+  "value-asc": "Value ascending",
+  "value-desc": "Value descending",
+};
+
+/**
+ * Picks a text-like category column and the first numeric column that isn't it.
+ */
+function defaultSpec(columns: ChartColumn[]): ChartSpec | null {
+  const numeric = columns.filter(column => isNumericColumnType(column.type));
+  const category = columns.find(column => !isNumericColumnType(column.type)) ?? columns[0];
+  const value = numeric.find(column => column.name !== category?.name);
+  if (!category || !value) {
+    return null;
+  }
+  return {
+    kind: "bar",
+    x: category.name,
+    y: [value.name],
+    series: null,
+    aggregation: "sum",
+    title: null,
+    layout: "grouped",
+    yScale: "linear",
+    sort: "x-asc",
+  };
+}
+
+/**
+ * Keeps the current spec when its columns still exist, otherwise starts over from the defaults.
+ */
+function reconcileSpec(spec: ChartSpec | null, columns: ChartColumn[]) {
+  const names = new Set(columns.map(column => column.name));
+  if (spec && names.has(spec.x) && spec.y.every(column => names.has(column)) && (!spec.series || names.has(spec.series))) {
+    return spec;
+  }
+  return defaultSpec(columns);
+}
+
+function ControlSelect<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={next => onChange(next as T)} disabled={disabled}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Builds a chart over a table or query result. Grouping and aggregation run in DuckDB, so the
+ * chart covers every row rather than a slice of them.
+ */
+export function ChartBuilder({ source, sourceLabel, refreshKey, onPin }: ChartBuilderProps) {
+  const [columns, setColumns] = useState<ChartColumn[]>([]);
+  const [spec, setSpec] = useState<ChartSpec | null>(null);
+  const [chart, setChart] = useState<ChartQueryResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    (async () => {
+      try {
+        const next = await describeChartColumns(source);
+        if (current) {
+          setColumns(next);
+          setSpec(previous => reconcileSpec(previous, next));
+        }
+      } catch (describeError) {
+        console.error("Failed to describe chart columns:", describeError);
+        if (current) {
+          setColumns([]);
+          setError(describeError instanceof Error ? describeError.message : "Failed to load columns");
+        }
+      }
+    })();
+    return () => {
+      current = false;
+    };
+  }, [source, refreshKey]);
+
+  useEffect(() => {
+    if (!spec) {
+      setChart(null);
+      return;
+    }
+    let current = true;
+    setIsLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const next = await runChartQuery(spec, source);
+        if (current) {
+          setChart(next);
+        }
+      } catch (queryError) {
+        console.error("Failed to query chart data:", queryError);
+        if (current) {
+          setChart(null);
+          setError(queryError instanceof Error ? queryError.message : "Failed to query chart data");
+        }
+      } finally {
+        if (current) {
+          setIsLoading(false);
+        }
+      }
+    })();
+    return () => {
+      current = false;
+    };
+  }, [spec, source, refreshKey]);
+
+  const numericColumns = useMemo(() => columns.filter(column => isNumericColumnType(column.type)), [columns]);
+  // Counting works on any column; the other aggregations need numbers
+  const valueColumns = useMemo(
+    () => (spec?.aggregation === "count" ? columns : numericColumns).filter(column => column.name !== spec?.x),
+    [columns, numericColumns, spec?.aggregation, spec?.x],
+  );
+
+  const update = (patch: Partial<ChartSpec>) => {
+    setSpec(previous => (previous ? { ...previous, ...patch } : previous));
+  };
+
+  const toggleValueColumn = (column: string) => {
+    if (!spec) {
+      return;
+    }
+    const selected = spec.y.includes(column) ? spec.y.filter(name => name !== column) : [...spec.y, column];
+    if (selected.length > 0) {
+      update({ y: selected });
+    }
+  };
+
+  const radial = spec ? isRadialChart(spec.kind) : false;
+  const supportsLayout = spec ? spec.kind === "bar" || spec.kind === "line" || spec.kind === "area" : false;
+  const columnOptions = columns.map(column => ({ value: column.name, label: column.name }));
+
+  return (
+    <Card className="min-w-0">
+      <CardHeader className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle>Chart</CardTitle>
+            <CardDescription className="truncate">
+              Aggregate {sourceLabel} by a category column and plot one or more values
+            </CardDescription>
+          </div>
+          {onPin && spec ? (
+            <Button variant="outline" size="sm" onClick={() => onPin(spec)}>
+              Pin to dashboard
+            </Button>
+          ) : null}
+        </div>
+        {spec ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-3">
+              <ControlSelect
+                label="Type"
+                value={spec.kind}
+                options={CHART_KINDS.map(kind => ({ value: kind, label: KIND_LABELS[kind] }))}
+                onChange={kind => update({ kind })}
+              />
+              <ControlSelect
+                label={spec.kind === "scatter" ? "X axis" : radial ? "Slices" : "Group by"}
+                value={spec.x}
+                options={columnOptions}
+                onChange={x => {
+                  const y = spec.y.filter(column => column !== x);
+                  update({ x, y: y.length > 0 ? y : spec.y });
+                }}
+              />
+              <ControlSelect
+                label="Aggregation"
+                value={spec.aggregation}
+                options={CHART_AGGREGATIONS.map(aggregation => ({ value: aggregation, label: aggregation }))}
+                onChange={aggregation => {
+                  const allowed = new Set(
+                    (aggregation === "count" ? columns : numericColumns).map(column => column.name),
+                  );
+                  const y = spec.y.filter(column => allowed.has(column));
+                  const fallback = numericColumns.find(column => column.name !== spec.x)?.name;
+                  update({ aggregation, y: y.length > 0 ? y : fallback ? [fallback] : spec.y });
+                }}
+              />
+              <ControlSelect
+                label="Series"
+                value={spec.series ?? NO_SERIES}
+                options={[{ value: NO_SERIES, label: "None" }, ...columnOptions.filter(option => option.value !== spec.x)]}
+                onChange={series => update({ series: series === NO_SERIES ? null : series })}
+                disabled={radial}
+              />
+              <ControlSelect
+                label="Sort"
+                value={spec.sort ?? "none"}
+                options={CHART_SORTS.map(sort => ({ value: sort, label: SORT_LABELS[sort] }))}
+                onChange={sort => update({ sort })}
+              />
+              <ControlSelect
+                label="Bars and lines"
+                value={spec.layout ?? "grouped"}
+                options={CHART_LAYOUTS.map(layout => ({ value: layout, label: layout === "grouped" ? "Grouped" : "Stacked" }))}
+                onChange={layout => update({ layout })}
+                disabled={!supportsLayout}
+              />
+              <ControlSelect
+                label="Value scale"
+                value={spec.yScale ?? "linear"}
+                options={CHART_SCALES.map(scale => ({ value: scale, label: scale === "linear" ? "Linear" : "Logarithmic" }))}
+                onChange={yScale => update({ yScale })}
+                disabled={radial}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">
+                {spec.series || radial ? "Value (first selected is plotted)" : "Values"}
+              </Label>
+              <div className="flex flex-wrap gap-1">
+                {valueColumns.map(column => (
+                  <Button
+                    key={column.name}
+                    variant={spec.y.includes(column.name) ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => toggleValueColumn(column.name)}
+                  >
+                    {column.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : null}
+      </CardHeader>
+      <CardContent className="min-w-0">
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        {!spec && !error ? (
+          <p className="text-sm text-muted-foreground">
+            {columns.length === 0 ? "Loading columns..." : "The data needs at least one numeric column to chart."}
+          </p>
+        ) : null}
+        {chart ? (
+          <SpecChart spec={chart.spec} source={chart.source} className={isLoading ? "opacity-60" : undefined} />
+        ) : spec && isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading chart...</p>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,28 +1,94 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { getSQLQuerySuggestion } from "@/lib/azure-openai";
-import { cn } from "@/lib/utils";
+import type { QueryResult } from "@/components/query-panel";
+import { SpecChart } from "@/components/spec-chart";
+import type { ChartSpec } from "@/lib/chart-spec";
+import {
+  buildQuerySuggestionPrompt,
+  getSQLQuerySuggestion,
+  summarizeQueryResult,
+  type ConversationTurn,
+  type ResultSample,
+} from "@/lib/llm-client";
+import { fetchGridRows } from "@/lib/grid-query";
+import { MAX_CHART_CATEGORIES } from "@/lib/chart-spec";
+import {
+  applyColumnPrivacy,
+  EMPTY_RESULT_PRIVACY,
+  resultColumnPrivacy,
+  type PromptTableSchema,
+  type ResultPrivacy,
+} from "@/lib/privacy";
+import { DEFAULT_MAX_REPAIR_ATTEMPTS, getValidatedQuerySuggestion, type RepairAttempt } from "@/lib/sql-agent";
+import { cn, isAbortError } from "@/lib/utils";
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-  query?: string;
+interface Message extends ConversationTurn {
+  /** Set while the answer is still streaming in */
+  streaming?: boolean;
+  /** Agent mode: whether the query passed validation, and every candidate that was tried */
+  validated?: boolean;
+  attempts?: RepairAttempt[];
+  status?: string;
+  /** Set while the plain-language summary of the executed result is streaming in */
+  summarizing?: boolean;
+  /** Chart proposed with the query, drawn from `result` once the query has run */
+  chart?: ChartSpec;
+  result?: ResultSample;
 }
 
+const MAX_REPAIR_ATTEMPTS_LIMIT = 5;
+// Charts drawn from in-memory rows read at most this many, and summaries far fewer
+const RESULT_SAMPLE_ROWS = MAX_CHART_CATEGORIES * 10;
+
 interface ChatBotProps {
   availableTables: string[];
-  tableSchemas?: Record<string, { columns: string[]; sampleRows: any[] }>;
-  onExecuteQuery: (query: string) => void;
+  tableSchemas?: Record<string, PromptTableSchema>;
+  /** Column types and statistics of every registered table, used instead of sample rows once available */
+  schemaDigest?: string;
+  /** Privacy for result columns; columns that match no sheet column get the session's strictest setting */
+  resultPrivacy?: ResultPrivacy;
+  onExecuteQuery: (query: string) => Promise<QueryResult>;
 }
 
-export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatBotProps) {
+const PREVIEW_PLACEHOLDER_QUESTION = "(your question)";
+
+export function ChatBot({
+  availableTables,
+  tableSchemas,
+  schemaDigest,
+  resultPrivacy = EMPTY_RESULT_PRIVACY,
+  onExecuteQuery,
+}: ChatBotProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [agentMode, setAgentMode] = useState(true);
+  const [maxRepairAttempts, setMaxRepairAttempts] = useState(DEFAULT_MAX_REPAIR_ATTEMPTS);
+  const [showPromptPreview, setShowPromptPreview] = useState(false);
+  // Off by default: computed and aliased result columns could carry any sheet value
+  const [allowUnmatchedReal, setAllowUnmatchedReal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The exact prompt the next question would send, so users can check what leaves the browser
+  const promptPreview = useMemo(() => {
+    if (!showPromptPreview) {
+      return null;
+    }
+    const prompt = buildQuerySuggestionPrompt(
+      input.trim() || PREVIEW_PLACEHOLDER_QUESTION,
+      availableTables,
+      tableSchemas,
+      { history: messages.filter(message => !message.streaming), schemaDigest },
+    );
+    return [
+      `[system]\n${prompt.systemPrompt}`,
+      ...prompt.messages.map(message => `[${message.role}]\n${message.content}`),
+    ].join("\n\n");
+  }, [showPromptPreview, input, availableTables, tableSchemas, schemaDigest, messages]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -40,31 +106,101 @@ export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatB
       content: input,
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // The assistant reply is the last message and is filled in as tokens arrive
+    const updateReply = (patch: Partial<Message>) => {
+      setMessages(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1]!, ...patch }]);
+    };
+
+    // Earlier turns, including whether their queries ran, let follow-ups refine a previous query
+    const history = messages.filter(message => !message.streaming);
+    setMessages(prev => [...prev, userMessage, { role: "assistant", content: "", streaming: true }]);
     setInput("");
     setIsLoading(true);
 
-    try {
-      const suggestion = await getSQLQuerySuggestion(input, availableTables, tableSchemas);
+    const onPartial = (partial: { query: string; explanation: string }) =>
+      updateReply({ content: partial.explanation, query: partial.query || undefined, status: undefined });
 
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: suggestion.explanation,
-        query: suggestion.query,
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+    try {
+      if (agentMode) {
+        const suggestion = await getValidatedQuerySuggestion(input, availableTables, tableSchemas, {
+          signal: controller.signal,
+          history,
+          schemaDigest,
+          maxRepairAttempts,
+          onPartial,
+          onValidating: () => updateReply({ status: "Validating with DuckDB..." }),
+          onAttempt: attempts => {
+            const last = attempts[attempts.length - 1]!;
+            updateReply({
+              attempts,
+              status: last.error ? `DuckDB rejected the query, asking for a fix (${attempts.length}/${maxRepairAttempts + 1})...` : undefined,
+            });
+          },
+        });
+        updateReply({
+          content: suggestion.explanation,
+          query: suggestion.query || undefined,
+          chart: suggestion.chart ?? undefined,
+          validated: suggestion.valid,
+          attempts: suggestion.attempts,
+          streaming: false,
+          status:
+            suggestion.query && !suggestion.valid
+              ? `No valid query after ${suggestion.attempts.length} attempt(s). Rephrase the question or fix the query by hand.`
+              : undefined,
+        });
+      } else {
+        const suggestion = await getSQLQuerySuggestion(input, availableTables, tableSchemas, {
+          signal: controller.signal,
+          history,
+          schemaDigest,
+          onPartial,
+        });
+        updateReply({
+          content: suggestion.explanation,
+          query: suggestion.query || undefined,
+          chart: suggestion.chart ?? undefined,
+          streaming: false,
+        });
+      }
     } catch (error) {
-      const errorMessage: Message = {
-        role: "assistant",
-        content: `Sorry, I encountered an error: ${error instanceof Error ? error.message : "Unknown error"}`,
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      if (isAbortError(error)) {
+        // Keep what already arrived, but do not offer a half-written query for execution
+        setMessages(prev => {
+          const reply = prev[prev.length - 1]!;
+          return [
+            ...prev.slice(0, -1),
+            {
+              role: "assistant",
+              content: `${reply.content}${reply.content ? "\n\n" : ""}(Stopped)`,
+              attempts: reply.attempts,
+              streaming: false,
+            },
+          ];
+        });
+      } else {
+        updateReply({
+          content: `Sorry, I encountered an error: ${error instanceof Error ? error.message : "Unknown error"}`,
+          query: undefined,
+          status: undefined,
+          streaming: false,
+        });
+      }
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -72,8 +208,71 @@ export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatB
     }
   };
 
-  const handleExecuteQuery = (query: string) => {
-    onExecuteQuery(query);
+  const handleExecuteQuery = async (index: number, query: string) => {
+    const updateMessage = (patch: Partial<Message>) => {
+      setMessages(prev => prev.map((message, position) => (position === index ? { ...message, ...patch } : message)));
+    };
+
+    let result: ResultSample;
+    try {
+      const executed = await onExecuteQuery(query);
+      // SELECT-like results stay in DuckDB, so only their first rows are read for the chat
+      const rows =
+        executed.rows ??
+        (await fetchGridRows({ kind: "query", sql: query }, { sort: null, filters: {}, offset: 0, limit: RESULT_SAMPLE_ROWS }));
+      result = { columns: executed.columns, rows, totalRows: executed.rowCount };
+      updateMessage({
+        execution: { status: "success", rowCount: executed.rowCount },
+        summary: undefined,
+        // Only kept when there is a chart to draw from it
+        result: messages[index]?.chart ? result : undefined,
+      });
+    } catch (error) {
+      updateMessage({
+        execution: { status: "error", error: error instanceof Error ? error.message : "Failed to execute query" },
+        summary: undefined,
+        result: undefined,
+      });
+      return;
+    }
+
+    // Answer the question that led to this query from the rows that came back
+    const question = messages
+      .slice(0, index)
+      .reverse()
+      .find(message => message.role === "user")?.content;
+    if (!question || isLoading) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    updateMessage({ summarizing: true, summary: "" });
+    try {
+      // Result columns that match a sheet column follow that column's privacy setting
+      const privacyFor = (column: string) => resultColumnPrivacy(resultPrivacy, query, column, allowUnmatchedReal);
+      const columns = result.columns.filter(column => privacyFor(column).privacy !== "name-only");
+      const rows = applyColumnPrivacy(columns, result.rows, privacyFor);
+      const summary = await summarizeQueryResult(question, query, { columns, rows, totalRows: result.totalRows }, {
+        signal: controller.signal,
+        onDelta: (_delta, content) => updateMessage({ summary: content }),
+      });
+      updateMessage({ summary, summarizing: false });
+    } catch (error) {
+      updateMessage({
+        summary: undefined,
+        status: isAbortError(error)
+          ? undefined
+          : `Could not summarize the result: ${error instanceof Error ? error.message : "Unknown error"}`,
+        summarizing: false,
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setIsLoading(false);
+    }
   };
 
   if (!isOpen) {
@@ -126,8 +325,67 @@ export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatB
           </Button>
         </CardHeader>
 
+        <div className="flex items-center gap-3 border-b px-6 pb-3 text-xs text-muted-foreground">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={agentMode}
+              onChange={event => setAgentMode(event.target.checked)}
+              disabled={isLoading}
+            />
+            Validate with DuckDB
+          </label>
+          <label
+            className="flex items-center gap-2"
+            title={`Computed or renamed result columns are otherwise sent as ${resultPrivacy.unmatched}`}
+          >
+            <input
+              type="checkbox"
+              checked={allowUnmatchedReal}
+              onChange={event => setAllowUnmatchedReal(event.target.checked)}
+              disabled={isLoading}
+            />
+            Send real values of unmatched columns
+          </label>
+          {agentMode ? (
+            <label className="flex items-center gap-2">
+              Max repairs
+              <Input
+                type="number"
+                className="h-7 w-14 text-xs"
+                min={0}
+                max={MAX_REPAIR_ATTEMPTS_LIMIT}
+                value={maxRepairAttempts}
+                onChange={event =>
+                  setMaxRepairAttempts(
+                    Math.min(Math.max(Number.parseInt(event.target.value, 10) || 0, 0), MAX_REPAIR_ATTEMPTS_LIMIT),
+                  )
+                }
+                disabled={isLoading}
+              />
+            </label>
+          ) : null}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 px-2 text-xs"
+            onClick={() => setShowPromptPreview(prev => !prev)}
+          >
+            {showPromptPreview ? "Hide prompt" : "Preview prompt"}
+          </Button>
+        </div>
+
         <CardContent className="flex-1 space-y-4 overflow-y-auto">
-          {messages.length === 0 ? (
+          {promptPreview !== null ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Sent with your next question, after the column privacy settings are applied.
+              </p>
+              <pre className="whitespace-pre-wrap break-all rounded bg-slate-900 p-2 text-xs text-slate-300">
+                {promptPreview}
+              </pre>
+            </div>
+          ) : messages.length === 0 ? (
             <div className="flex h-full items-center justify-center text-center">
               <div className="space-y-2">
                 <p className="text-sm text-muted-foreground">Ask me to help you write SQL queries!</p>
@@ -150,37 +408,91 @@ export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatB
                       : "bg-muted",
                   )}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.streaming && !message.content ? (
+                    <div className="flex items-center space-x-2 py-1">
+                      <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500" />
+                      <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500 animation-delay-200" />
+                      <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500 animation-delay-400" />
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">
+                      {message.content}
+                      {message.streaming ? <span className="ml-0.5 inline-block animate-pulse">▍</span> : null}
+                    </p>
+                  )}
                   {message.query && (
                     <div className="mt-2 space-y-2">
                       <div className="rounded bg-slate-900 p-2">
                         <code className="text-xs text-green-400">{message.query}</code>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="secondary"
-                        className="w-full"
-                        onClick={() => handleExecuteQuery(message.query!)}
-                      >
-                        Execute Query
-                      </Button>
+                      {/* In agent mode the query can only be executed once DuckDB accepted it */}
+                      {message.validated !== false ? (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="w-full"
+                          onClick={() => handleExecuteQuery(index, message.query!)}
+                          disabled={message.streaming}
+                        >
+                          Execute Query
+                        </Button>
+                      ) : null}
+                      {message.execution ? (
+                        <p
+                          className={cn(
+                            "text-xs",
+                            message.execution.status === "success" ? "text-muted-foreground" : "text-destructive",
+                          )}
+                        >
+                          {message.execution.status === "success"
+                            ? `Returned ${message.execution.rowCount} row(s)`
+                            : `Failed: ${message.execution.error}`}
+                        </p>
+                      ) : null}
+                      {message.chart ? (
+                        message.result && message.execution?.status === "success" ? (
+                          <SpecChart spec={message.chart} source={message.result} className="rounded bg-background p-2" />
+                        ) : (
+                          <p className="text-xs text-muted-foreground">
+                            Execute the query to see the proposed {message.chart.kind} chart.
+                          </p>
+                        )
+                      ) : null}
+                      {message.summarizing && !message.summary ? (
+                        <p className="text-xs italic text-muted-foreground">Summarizing the result...</p>
+                      ) : null}
+                      {message.summary ? (
+                        <div className="rounded border-l-2 border-primary bg-background/60 px-3 py-2 text-sm">
+                          {message.summary}
+                          {message.summarizing ? <span className="ml-0.5 inline-block animate-pulse">▍</span> : null}
+                        </div>
+                      ) : null}
                     </div>
                   )}
+                  {message.status ? <p className="mt-2 text-xs italic text-muted-foreground">{message.status}</p> : null}
+                  {message.attempts && message.attempts.some(attempt => attempt.error) ? (
+                    <details className="mt-2 text-xs">
+                      <summary className="cursor-pointer text-muted-foreground">
+                        Repair trace ({message.attempts.length} attempt{message.attempts.length === 1 ? "" : "s"})
+                      </summary>
+                      <ol className="mt-2 space-y-2">
+                        {message.attempts.map((attempt, attemptIndex) => (
+                          <li key={attemptIndex} className="space-y-1">
+                            <code className="block whitespace-pre-wrap break-all rounded bg-slate-900 p-2 text-slate-300">
+                              {attempt.query}
+                            </code>
+                            <p className={attempt.error ? "text-destructive" : "text-green-500"}>
+                              {attempt.error ?? "Valid"}
+                            </p>
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  ) : null}
                 </div>
               </div>
             ))
           )}
-          {isLoading && (
-            <div className="flex justify-start">
-              <div className="max-w-[80%] rounded-lg bg-muted px-4 py-2">
-                <div className="flex items-center space-x-2">
-                  <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500" />
-                  <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500 animation-delay-200" />
-                  <div className="h-2 w-2 animate-bounce rounded-full bg-slate-500 animation-delay-400" />
-                </div>
-              </div>
-            </div>
-          )}
           <div ref={messagesEndRef} />
         </CardContent>
 
@@ -193,9 +505,15 @@ export function ChatBot({ availableTables, tableSchemas, onExecuteQuery }: ChatB
               onKeyPress={handleKeyPress}
               disabled={isLoading}
             />
-            <Button onClick={handleSend} disabled={isLoading || !input.trim()}>
-              Send
-            </Button>
+            {isLoading ? (
+              <Button variant="outline" onClick={handleStop}>
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={handleSend} disabled={!input.trim()}>
+                Send
+              </Button>
+            )}
           </div>
         </CardFooter>
       </Card>
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COLUMN_PRIVACY_OPTIONS, type ColumnPrivacy, type PiiKind } from "@/lib/privacy";
+
+export interface ColumnPrivacyState {
+  name: string;
+  pii: PiiKind | null;
+  privacy: ColumnPrivacy;
+}
+
+export interface TablePrivacyState {
+  tableName: string;
+  columns: ColumnPrivacyState[];
+}
+
+interface ColumnPrivacyEditorProps {
+  tables: TablePrivacyState[];
+  onChange: (tableName: string, columnName: string, privacy: ColumnPrivacy) => void;
+}
+
+const PII_LABELS: Record<PiiKind, string> = {
+  email: "Email",
+  phone: "Phone",
+  id: "ID",
+};
+
+export function ColumnPrivacyEditor({ tables, onChange }: ColumnPrivacyEditorProps) {
+  const flagged = tables.reduce((total, table) => total + table.columns.filter(column => column.pii).length, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assistant Privacy</CardTitle>
+        <CardDescription>
+          Choose what the SQL assistant may see per column: only the name and type, masked values, or real values.
+          Columns that look like emails, phone numbers or IDs are masked by default
+          {flagged > 0 ? ` (${flagged} detected)` : ""}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tables.map(table => (
+          <details key={table.tableName} className="space-y-2">
+            <summary className="cursor-pointer font-mono text-sm">{table.tableName}</summary>
+            <div className="grid gap-2 pt-2 sm:grid-cols-2 lg:grid-cols-3">
+              {table.columns.map(column => (
+                <div key={column.name} className="flex items-center justify-between gap-2 rounded-md border px-2 py-1">
+                  <span className="flex min-w-0 items-center gap-2 text-sm">
+                    <span className="truncate" title={column.name}>
+                      {column.name}
+                    </span>
+                    {column.pii ? (
+                      <span className="shrink-0 rounded bg-amber-500/20 px-1.5 text-xs text-amber-500">
+                        {PII_LABELS[column.pii]}
+                      </span>
+                    ) : null}
+                  </span>
+                  <Select
+                    value={column.privacy}
+                    onValueChange={value => onChange(table.tableName, column.name, value as ColumnPrivacy)}
+                  >
+                    <SelectTrigger className="w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLUMN_PRIVACY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </details>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,389 @@
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { DataGrid } from "@/components/data-grid";
+import { SpecChart } from "@/components/spec-chart";
+import { runChartQuery, type ChartQueryResult } from "@/lib/chart-query";
+import {
+  checkTileQuery,
+  clampTileLayout,
+  DASHBOARD_GRID_COLUMNS,
+  DASHBOARD_ROW_HEIGHT,
+  parseDashboard,
+  queryKpiValue,
+  serializeDashboard,
+  tileTableVersion,
+  type ChartTile,
+  type Dashboard,
+  type DashboardTile,
+  type KpiTile,
+  type TableTile,
+  type TileLayout,
+} from "@/lib/dashboard";
+import { buildExportFileName, downloadFile } from "@/lib/export";
+import type { GridSource } from "@/lib/grid-query";
+
+interface DashboardViewProps {
+  dashboard: Dashboard;
+  onChange: (update: (dashboard: Dashboard) => Dashboard) => void;
+  /** Bumped whenever workbook tables are registered again; every tile re-runs its query */
+  dataVersion: number;
+  /** Edit versions per table; only tiles whose SQL names an edited table re-run */
+  tableVersions?: Record<string, number>;
+}
+
+// Matches the grid's gap-4
+const GRID_GAP = 16;
+// Tile header and padding around the body
+const TILE_CHROME_HEIGHT = 56;
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+function formatKpiValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return "–";
+  }
+  if (typeof value === "number") {
+    return numberFormat.format(value);
+  }
+  if (typeof value === "bigint") {
+    return value.toLocaleString();
+  }
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+}
+
+function tileBodyHeight(layout: TileLayout) {
+  return layout.h * DASHBOARD_ROW_HEIGHT + (layout.h - 1) * GRID_GAP - TILE_CHROME_HEIGHT;
+}
+
+/**
+ * Loads a tile's data whenever its definition or the refresh key changes, dropping results
+ * of loads that were superseded.
+ */
+function useTileData<T>(load: () => Promise<T>, dependencies: unknown[]) {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    setError(null);
+    load()
+      .then(next => {
+        if (current) {
+          setData(next);
+        }
+      })
+      .catch(loadError => {
+        console.error("Failed to load dashboard tile:", loadError);
+        if (current) {
+          setData(null);
+          setError(loadError instanceof Error ? loadError.message : "Failed to load tile");
+        }
+      });
+    return () => {
+      current = false;
+    };
+    // The caller lists what the load depends on
+  }, dependencies);
+
+  return { data, error };
+}
+
+function ChartTileBody({ tile, refreshKey }: { tile: ChartTile; refreshKey: number }) {
+  const { data, error } = useTileData<ChartQueryResult>(
+    async () => {
+      await checkTileQuery(tile);
+      return runChartQuery(tile.spec, { kind: "query", sql: tile.sql });
+    },
+    [tile.sql, tile.spec, refreshKey],
+  );
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  return data ? (
+    <SpecChart spec={data.spec} source={data.source} fillHeight />
+  ) : (
+    <p className="text-sm text-muted-foreground">Loading...</p>
+  );
+}
+
+function KpiTileBody({ tile, refreshKey }: { tile: KpiTile; refreshKey: number }) {
+  const { data, error } = useTileData(() => queryKpiValue(tile), [tile.sql, tile.column, refreshKey]);
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  return (
+    <div className="flex h-full flex-col justify-center">
+      <span className="truncate text-3xl font-semibold">{data ? formatKpiValue(data.value) : "…"}</span>
+      {data ? <span className="truncate text-xs text-muted-foreground">{data.column}</span> : null}
+    </div>
+  );
+}
+
+function TableTileBody({ tile, refreshKey }: { tile: TableTile; refreshKey: number }) {
+  const source = useMemo<GridSource>(() => ({ kind: "query", sql: tile.sql }), [tile.sql]);
+  // The grid only pages through the query once it has been checked
+  const { data: checked, error } = useTileData(() => checkTileQuery(tile).then(() => true), [tile.sql]);
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  return checked ? (
+    <DataGrid source={source} refreshKey={refreshKey} height={Math.max(tileBodyHeight(tile.layout) - 28, 80)} />
+  ) : (
+    <p className="text-sm text-muted-foreground">Loading...</p>
+  );
+}
+
+interface TileCardProps {
+  tile: DashboardTile;
+  refreshKey: number;
+  gridRef: RefObject<HTMLDivElement | null>;
+  onChange: (patch: Partial<Pick<DashboardTile, "title" | "layout">>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function TileCard({ tile, refreshKey, gridRef, onChange, onMove, onRemove }: TileCardProps) {
+  const startResize = (event: React.PointerEvent<HTMLDivElement>) => {
+    const grid = gridRef.current;
+    if (!grid) {
+      return;
+    }
+    event.preventDefault();
+    const handle = event.currentTarget;
+    handle.setPointerCapture(event.pointerId);
+    const columnStep = (grid.clientWidth + GRID_GAP) / DASHBOARD_GRID_COLUMNS;
+    const rowStep = DASHBOARD_ROW_HEIGHT + GRID_GAP;
+    const start = { x: event.clientX, y: event.clientY, layout: tile.layout };
+
+    // Snaps to whole grid cells while dragging
+    const onPointerMove = (moveEvent: PointerEvent) => {
+      const next = clampTileLayout({
+        w: start.layout.w + (moveEvent.clientX - start.x) / columnStep,
+        h: start.layout.h + (moveEvent.clientY - start.y) / rowStep,
+      });
+      onChange({ layout: next });
+    };
+    const onPointerUp = () => {
+      handle.removeEventListener("pointermove", onPointerMove);
+      handle.removeEventListener("pointerup", onPointerUp);
+      handle.removeEventListener("pointercancel", onPointerUp);
+    };
+    handle.addEventListener("pointermove", onPointerMove);
+    handle.addEventListener("pointerup", onPointerUp);
+    handle.addEventListener("pointercancel", onPointerUp);
+  };
+
+  return (
+    <div
+      className="relative flex min-w-0 flex-col gap-2 overflow-hidden rounded-xl border bg-card p-3 text-card-foreground shadow-sm"
+      style={{
+        gridColumn: `span ${tile.layout.w} / span ${tile.layout.w}`,
+        gridRow: `span ${tile.layout.h} / span ${tile.layout.h}`,
+      }}
+    >
+      <div className="flex items-center gap-1">
+        <Input
+          value={tile.title}
+          onChange={event => onChange({ title: event.target.value })}
+          className="h-7 border-transparent bg-transparent px-1 font-medium shadow-none"
+          title={tile.sql}
+        />
+        <Button variant="ghost" size="sm" onClick={() => onMove(-1)} title="Move earlier">
+          ←
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onMove(1)} title="Move later">
+          →
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onRemove} title="Remove tile">
+          ×
+        </Button>
+      </div>
+      <div className="min-h-0 flex-1">
+        {tile.kind === "chart" ? (
+          <ChartTileBody tile={tile} refreshKey={refreshKey} />
+        ) : tile.kind === "kpi" ? (
+          <KpiTileBody tile={tile} refreshKey={refreshKey} />
+        ) : (
+          <TableTileBody tile={tile} refreshKey={refreshKey} />
+        )}
+      </div>
+      <div
+        className="absolute bottom-0 right-0 h-4 w-4 cursor-se-resize touch-none rounded-tl-sm bg-muted-foreground/30"
+        onPointerDown={startResize}
+        title="Drag to resize"
+      />
+    </div>
+  );
+}
+
+/**
+ * Pinned query tiles on a 12-column grid. Tiles keep their SQL, so they re-run together when
+ * the data they read changes.
+ */
+export function DashboardView({ dashboard, onChange, dataVersion, tableVersions = {} }: DashboardViewProps) {
+  const [manualRefresh, setManualRefresh] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  // A loaded file is shown for review and only replaces the dashboard (and runs) once confirmed
+  const [pending, setPending] = useState<{ dashboard: Dashboard; fileName: string } | null>(null);
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const refreshKey = dataVersion + manualRefresh;
+
+  const updateTile = (id: string, patch: Partial<Pick<DashboardTile, "title" | "layout">>) => {
+    onChange(current => ({
+      ...current,
+      tiles: current.tiles.map(tile => (tile.id === id ? { ...tile, ...patch } : tile)),
+    }));
+  };
+
+  const moveTile = (id: string, offset: number) => {
+    onChange(current => {
+      const index = current.tiles.findIndex(tile => tile.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= current.tiles.length) {
+        return current;
+      }
+      const tiles = current.tiles.slice();
+      const [moved] = tiles.splice(index, 1);
+      tiles.splice(target, 0, moved!);
+      return { ...current, tiles };
+    });
+  };
+
+  const removeTile = (id: string) => {
+    onChange(current => ({ ...current, tiles: current.tiles.filter(tile => tile.id !== id) }));
+  };
+
+  const save = () => {
+    const fileName = buildExportFileName(dashboard.name, "json");
+    downloadFile(serializeDashboard(dashboard), fileName, "application/json");
+    setStatus(`Saved ${fileName}`);
+  };
+
+  const load = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      setPending({ dashboard: parseDashboard(await file.text()), fileName: file.name });
+      setStatus(null);
+    } catch (error) {
+      console.error("Failed to load dashboard:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to load dashboard");
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const confirmPending = () => {
+    if (!pending) {
+      return;
+    }
+    onChange(() => pending.dashboard);
+    setStatus(`Loaded ${pending.dashboard.tiles.length} tile(s) from ${pending.fileName}`);
+    setPending(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="space-y-3">
+          <div>
+            <CardTitle>Dashboard</CardTitle>
+            <CardDescription>
+              Pin charts, KPIs and tables from the SQL panel or the sheet chart. Tiles re-run their queries together
+              when a workbook is uploaded again under the same table names.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={dashboard.name}
+              onChange={event => onChange(current => ({ ...current, name: event.target.value }))}
+              className="max-w-xs"
+              placeholder="Dashboard name"
+            />
+            <Button variant="outline" onClick={() => setManualRefresh(value => value + 1)} disabled={dashboard.tiles.length === 0}>
+              Refresh all
+            </Button>
+            <Button variant="outline" onClick={save} disabled={dashboard.tiles.length === 0}>
+              Save JSON
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              Load JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              className="hidden"
+              type="file"
+              accept=".json,application/json"
+              onChange={event => void load(event.target.files)}
+            />
+          </div>
+          {status ? <p className="text-xs text-muted-foreground">{status}</p> : null}
+        </CardHeader>
+      </Card>
+
+      {pending ? (
+        <Card>
+          <CardHeader className="space-y-3">
+            <div>
+              <CardTitle>Review {pending.fileName}</CardTitle>
+              <CardDescription>
+                These queries run against your tables once you load the dashboard. Check them before continuing; loading
+                replaces the current tiles.
+              </CardDescription>
+            </div>
+            <ul className="space-y-2">
+              {pending.dashboard.tiles.map(tile => (
+                <li key={tile.id} className="space-y-1 rounded-md border p-2">
+                  <p className="text-sm font-medium">
+                    {tile.title} <span className="text-xs text-muted-foreground">({tile.kind})</span>
+                  </p>
+                  <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono text-xs">
+                    {tile.sql}
+                  </pre>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button onClick={confirmPending}>Load and run</Button>
+              <Button variant="outline" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+      ) : null}
+
+      {dashboard.tiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tiles pinned yet.</p>
+      ) : (
+        <div
+          ref={gridRef}
+          className="grid gap-4"
+          style={{
+            gridTemplateColumns: `repeat(${DASHBOARD_GRID_COLUMNS}, minmax(0, 1fr))`,
+            gridAutoRows: `${DASHBOARD_ROW_HEIGHT}px`,
+          }}
+        >
+          {dashboard.tiles.map(tile => (
+            <TileCard
+              key={tile.id}
+              tile={tile}
+              refreshKey={refreshKey + tileTableVersion(tile.sql, tableVersions)}
+              gridRef={gridRef}
+              onChange={patch => updateTile(tile.id, patch)}
+              onMove={offset => moveTile(tile.id, offset)}
+              onRemove={() => removeTile(tile.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
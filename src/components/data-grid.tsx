@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  countGridRows,
+  fetchGridColumns,
+  fetchGridRows,
+  GRID_ROW_ID_KEY,
+  type GridFilters,
+  type GridSort,
+  type GridSource,
+} from "@/lib/grid-query";
+import { cellKey } from "@/lib/cell-edits";
+import { cn } from "@/lib/utils";
+
+export interface DataGridEditing {
+  /** Keys from `cellKey` of cells that differ from the imported data */
+  dirtyCells: Set<string>;
+  /** Saves typed text into a cell; resolves to an error message when the value is rejected */
+  onEditCell: (rowId: number, column: string, text: string) => Promise<string | null>;
+}
+
+interface DataGridProps {
+  /** Memoise the source; a new object starts the grid over */
+  source: GridSource;
+  height?: number;
+  /** Reloads the rows when this changes, e.g. after the underlying table was re-registered */
+  refreshKey?: unknown;
+  /** Reloads the cached rows but keeps the scroll position, e.g. after a cell was edited */
+  rowsVersion?: number;
+  /** Table sources only: double-click a cell to edit it */
+  editing?: DataGridEditing;
+}
+
+interface EditingCell {
+  rowId: number;
+  column: string;
+  draft: string;
+  error: string | null;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 68;
+const ROW_NUMBER_WIDTH = 64;
+const COLUMN_WIDTH = 160;
+const PAGE_SIZE = 200;
+const OVERSCAN_ROWS = 10;
+// Pages this far outside the rendered window are dropped, so scrolling a large result keeps memory flat
+const CACHED_PAGE_MARGIN = 2;
+const FILTER_DEBOUNCE_MS = 300;
+// Browsers cap element heights (around 16-33 million pixels), so taller grids scroll proportionally
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+function formatCell(value: unknown) {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item));
+  }
+  return String(value);
+}
+
+// Dates come back from DuckDB as wall-clock times encoded in UTC
+function toEditText(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    const text = value.toISOString().replace("T", " ").replace("Z", "");
+    return text.endsWith(" 00:00:00.000") ? text.slice(0, 10) : text;
+  }
+  return formatCell(value);
+}
+
+function nextSort(current: GridSort | null, column: string): GridSort | null {
+  if (current?.column !== column) {
+    return { column, direction: "asc" };
+  }
+  return current.direction === "asc" ? { column, direction: "desc" } : null;
+}
+
+/**
+ * Windowed grid that only keeps the pages around the viewport in memory. Sorting and filtering
+ * run in DuckDB, so tables with millions of rows scroll without loading them into React state.
+ */
+export function DataGrid({ source, height = 400, refreshKey, rowsVersion, editing }: DataGridProps) {
+  const [columns, setColumns] = useState<string[]>([]);
+  const [totalRows, setTotalRows] = useState<number | null>(null);
+  const [sort, setSort] = useState<GridSort | null>(null);
+  const [filterInputs, setFilterInputs] = useState<GridFilters>({});
+  const [filters, setFilters] = useState<GridFilters>({});
+  const [scrollTop, setScrollTop] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [pagesVersion, setPagesVersion] = useState(0);
+  const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef(new Map<number, Record<string, unknown>[]>());
+  const loadingPagesRef = useRef(new Set<number>());
+  const generationRef = useRef(0);
+  const committingRef = useRef(false);
+
+  const queryable = source.kind !== "rows";
+  const editable = Boolean(editing) && source.kind === "table";
+
+  // A new source starts without sorting or filters
+  useEffect(() => {
+    setSort(null);
+    setFilterInputs({});
+    setFilters({});
+  }, [source]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchGridColumns(source)
+      .then(next => {
+        if (!cancelled) {
+          setColumns(next);
+        }
+      })
+      .catch(fetchError => {
+        if (!cancelled) {
+          setError(fetchError instanceof Error ? fetchError.message : "Failed to load columns");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, refreshKey]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setFilters(filterInputs), FILTER_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [filterInputs]);
+
+  // Every change of source, sort or filters drops the cached pages and recounts
+  useEffect(() => {
+    generationRef.current += 1;
+    const generation = generationRef.current;
+    pagesRef.current = new Map();
+    loadingPagesRef.current = new Set();
+    setPagesVersion(version => version + 1);
+    setTotalRows(null);
+    setError(null);
+    scrollerRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+
+    countGridRows(source, filters)
+      .then(count => {
+        if (generationRef.current === generation) {
+          setTotalRows(count);
+        }
+      })
+      .catch(countError => {
+        if (generationRef.current === generation) {
+          setError(countError instanceof Error ? countError.message : "Failed to count rows");
+        }
+      });
+  }, [source, sort, filters, refreshKey]);
+
+  // Refetch the cached pages in place; the row count and scroll position stay
+  useEffect(() => {
+    if (rowsVersion === undefined) {
+      return;
+    }
+    generationRef.current += 1;
+    pagesRef.current = new Map();
+    loadingPagesRef.current = new Set();
+    setPagesVersion(version => version + 1);
+  }, [rowsVersion]);
+
+  const commitEdit = async (cell: EditingCell) => {
+    if (!editing || committingRef.current) {
+      return;
+    }
+    committingRef.current = true;
+    try {
+      const error = await editing.onEditCell(cell.rowId, cell.column, cell.draft);
+      setEditingCell(error ? { ...cell, error } : null);
+    } finally {
+      committingRef.current = false;
+    }
+  };
+
+  const bodyHeight = height - HEADER_HEIGHT;
+  const rowCount = totalRows ?? 0;
+  const realHeight = rowCount * ROW_HEIGHT;
+  const virtualHeight = Math.min(realHeight, MAX_SCROLL_HEIGHT);
+  const maxVirtualScroll = Math.max(0, virtualHeight - bodyHeight);
+  const ratio = maxVirtualScroll > 0 ? Math.max(0, realHeight - bodyHeight) / maxVirtualScroll : 1;
+  const clampedScrollTop = Math.min(scrollTop, maxVirtualScroll);
+  const offset = clampedScrollTop * ratio;
+  const firstVisible = Math.floor(offset / ROW_HEIGHT);
+  const start = Math.max(0, firstVisible - OVERSCAN_ROWS);
+  const end = Math.min(rowCount, firstVisible + Math.ceil(bodyHeight / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const windowTop = clampedScrollTop - (offset - start * ROW_HEIGHT);
+
+  // Load the pages that overlap the rendered window and forget those far away from it
+  useEffect(() => {
+    if (totalRows === null || end <= start) {
+      return;
+    }
+    const generation = generationRef.current;
+    const firstPage = Math.floor(start / PAGE_SIZE);
+    const lastPage = Math.floor((end - 1) / PAGE_SIZE);
+    for (const page of pagesRef.current.keys()) {
+      if (page < firstPage - CACHED_PAGE_MARGIN || page > lastPage + CACHED_PAGE_MARGIN) {
+        pagesRef.current.delete(page);
+      }
+    }
+    for (let page = firstPage; page <= lastPage; page += 1) {
+      if (pagesRef.current.has(page) || loadingPagesRef.current.has(page)) {
+        continue;
+      }
+      loadingPagesRef.current.add(page);
+      fetchGridRows(source, { sort, filters, offset: page * PAGE_SIZE, limit: PAGE_SIZE })
+        .then(rows => {
+          if (generationRef.current === generation) {
+            pagesRef.current.set(page, rows);
+            setPagesVersion(version => version + 1);
+          }
+        })
+        .catch(fetchError => {
+          if (generationRef.current === generation) {
+            setError(fetchError instanceof Error ? fetchError.message : "Failed to load rows");
+          }
+        })
+        .finally(() => {
+          if (generationRef.current === generation) {
+            loadingPagesRef.current.delete(page);
+          }
+        });
+    }
+  }, [source, sort, filters, totalRows, start, end, pagesVersion]);
+
+  const visibleRows = useMemo(() => {
+    const rows: { index: number; row: Record<string, unknown> | null }[] = [];
+    for (let index = start; index < end; index += 1) {
+      const page = pagesRef.current.get(Math.floor(index / PAGE_SIZE));
+      rows.push({ index, row: page?.[index % PAGE_SIZE] ?? null });
+    }
+    return rows;
+    // pagesVersion changes whenever a page arrives
+  }, [start, end, pagesVersion]);
+
+  const totalWidth = ROW_NUMBER_WIDTH + columns.length * COLUMN_WIDTH;
+  const activeFilters = Object.values(filters).filter(text => text.trim()).length;
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={scrollerRef}
+        className="overflow-auto rounded-md border text-sm"
+        style={{ height }}
+        onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div style={{ width: totalWidth, minWidth: "100%" }}>
+          <div className="sticky top-0 z-10 flex border-b bg-background" style={{ height: HEADER_HEIGHT }}>
+            <div className="shrink-0 border-r" style={{ width: ROW_NUMBER_WIDTH }} />
+            {columns.map(column => (
+              <div key={column} className="flex shrink-0 flex-col gap-1 border-r p-1" style={{ width: COLUMN_WIDTH }}>
+                <button
+                  type="button"
+                  className="flex items-center justify-between gap-1 truncate px-1 text-left font-medium disabled:cursor-default"
+                  onClick={() => setSort(current => nextSort(current, column))}
+                  disabled={!queryable}
+                  title={queryable ? `Sort by ${column}` : column}
+                >
+                  <span className="truncate">{column}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {sort?.column === column ? (sort.direction === "asc" ? "▲" : "▼") : ""}
+                  </span>
+                </button>
+                {queryable ? (
+                  <Input
+                    className="h-7 px-2 text-xs"
+                    placeholder="Filter, e.g. >10"
+                    value={filterInputs[column] ?? ""}
+                    onChange={event => setFilterInputs(prev => ({ ...prev, [column]: event.target.value }))}
+                  />
+                ) : null}
+              </div>
+            ))}
+          </div>
+          <div className="relative" style={{ height: Math.max(virtualHeight, 0) }}>
+            <div className="absolute inset-x-0" style={{ top: windowTop }}>
+              {visibleRows.map(({ index, row }) => (
+                <div key={index} className="flex border-b hover:bg-muted/50" style={{ height: ROW_HEIGHT }}>
+                  <div
+                    className="shrink-0 border-r px-2 py-1.5 text-right text-xs text-muted-foreground"
+                    style={{ width: ROW_NUMBER_WIDTH }}
+                  >
+                    {index + 1}
+                  </div>
+                  {columns.map(column => {
+                    const value = row?.[column];
+                    const empty = value === null || value === undefined || value === "";
+                    const rowId = typeof row?.[GRID_ROW_ID_KEY] === "number" ? (row[GRID_ROW_ID_KEY] as number) : null;
+                    const isEditing = editingCell !== null && editingCell.rowId === rowId && editingCell.column === column;
+                    if (isEditing) {
+                      return (
+                        <div key={column} className="relative shrink-0 border-r" style={{ width: COLUMN_WIDTH }}>
+                          <input
+                            autoFocus
+                            className={cn(
+                              "h-full w-full bg-background px-2 outline-none ring-2 ring-inset",
+                              editingCell.error ? "ring-destructive" : "ring-primary",
+                            )}
+                            value={editingCell.draft}
+                            title={editingCell.error ?? "Enter to save, Escape to cancel"}
+                            onChange={event => setEditingCell({ ...editingCell, draft: event.target.value, error: null })}
+                            onKeyDown={event => {
+                              if (event.key === "Enter") {
+                                event.preventDefault();
+                                void commitEdit(editingCell);
+                              } else if (event.key === "Escape") {
+                                setEditingCell(null);
+                              }
+                            }}
+                            onBlur={() => setEditingCell(current => (current?.error ? current : null))}
+                          />
+                        </div>
+                      );
+                    }
+                    const dirty = rowId !== null && editing?.dirtyCells.has(cellKey(rowId, column));
+                    return (
+                      <div
+                        key={column}
+                        className={cn(
+                          "shrink-0 truncate border-r px-2 py-1.5",
+                          empty && "text-muted-foreground",
+                          dirty && "bg-amber-500/20",
+                          editable && rowId !== null && "cursor-text",
+                        )}
+                        style={{ width: COLUMN_WIDTH }}
+                        title={empty ? undefined : formatCell(value)}
+                        onDoubleClick={() => {
+                          if (editable && rowId !== null) {
+                            setEditingCell({ rowId, column, draft: toEditText(value), error: null });
+                          }
+                        }}
+                      >
+                        {row === null ? "…" : empty ? "NULL" : formatCell(value)}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {totalRows === null
+            ? "Counting rows..."
+            : `${totalRows.toLocaleString()} row(s)${activeFilters > 0 ? ` matching ${activeFilters} filter(s)` : ""}`}
+        </span>
+        {editingCell?.error ? (
+          <span className="truncate text-destructive">{editingCell.error}</span>
+        ) : error ? (
+          <span className="truncate text-destructive">{error}</span>
+        ) : editable ? (
+          <span>Double-click a cell to edit it</span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,47 +1,97 @@
 import { useState, useRef, type DragEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { parseExcel, type ParsedWorkbook } from "@/lib/excel";
-import { cn } from "@/lib/utils";
+import type { ParsedWorkbook, ParseProgress } from "@/lib/excel";
+import { parseWorkbookInWorker } from "@/lib/parse-client";
+import { findImporter, getAcceptedFileTypes, getSupportedExtensions } from "@/lib/importers";
+import { cn, isAbortError } from "@/lib/utils";
 
 interface ExcelUploaderProps {
   onParsed: (workbook: ParsedWorkbook) => Promise<void> | void;
   disabled?: boolean;
 }
 
-const ACCEPTED_TYPES = ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "application/vnd.ms-excel"];
+const ACCEPTED_TYPES = getAcceptedFileTypes();
 
-function isExcelFile(file: File) {
-  return ACCEPTED_TYPES.includes(file.type) || file.name.endsWith(".xlsx") || file.name.endsWith(".xls");
+function isSupportedFile(file: File) {
+  return findImporter(file.name, file.type) !== null;
+}
+
+interface UploadProgress {
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+  parse: ParseProgress;
+}
+
+// Reading the workbook counts as one step, followed by one step per sheet
+function progressPercent(progress: UploadProgress) {
+  const { completedSheets, totalSheets } = progress.parse;
+  const fileFraction = totalSheets > 0 ? (completedSheets + 1) / (totalSheets + 1) : 0;
+  return Math.round(((progress.fileIndex + fileFraction) / progress.fileCount) * 100);
+}
+
+function describeProgress(progress: UploadProgress) {
+  const prefix = progress.fileCount > 1 ? `[${progress.fileIndex + 1}/${progress.fileCount}] ` : "";
+  if (progress.parse.stage === "reading") {
+    return `${prefix}Reading "${progress.fileName}"...`;
+  }
+  return `${prefix}Parsed sheet "${progress.parse.sheetName}" (${progress.parse.completedSheets}/${progress.parse.totalSheets})`;
 }
 
 export function ExcelUploader({ onParsed, disabled }: ExcelUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const resetDrag = () => setIsDragging(false);
 
   const handleFiles = async (files: FileList | null) => {
-    if (!files || files.length === 0) {
+    if (!files || files.length === 0 || abortRef.current) {
       return;
     }
-    const file = files[0];
-    if (!isExcelFile(file)) {
-      setStatus("Only .xlsx / .xls files are supported");
+    const selected = Array.from(files);
+    const rejected = selected.filter(file => !isSupportedFile(file));
+    const accepted = selected.filter(file => isSupportedFile(file));
+    if (accepted.length === 0) {
+      setStatus(`Supported files: ${getSupportedExtensions().join(" / ")}`);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const loaded: string[] = [];
     try {
-      setStatus("Loading...");
-      const workbook = await parseExcel(file);
-      await onParsed(workbook);
-      setStatus(`Loaded "${file.name}"`);
+      for (const [fileIndex, file] of accepted.entries()) {
+        const workbook = await parseWorkbookInWorker(file, {
+          signal: controller.signal,
+          onProgress: parse => setProgress({ fileName: file.name, fileIndex, fileCount: accepted.length, parse }),
+        });
+        setProgress(null);
+        setStatus(`Importing "${file.name}"...`);
+        await onParsed(workbook);
+        loaded.push(file.name);
+      }
+      const skipped = rejected.length > 0 ? ` (skipped ${rejected.length} unsupported file(s))` : "";
+      setStatus(`Loaded ${loaded.map(name => `"${name}"`).join(", ")}${skipped}`);
     } catch (error) {
-      setStatus(error instanceof Error ? error.message : "Failed to load file");
+      if (isAbortError(error)) {
+        setStatus(loaded.length > 0 ? `Cancelled after loading ${loaded.length} file(s)` : "Cancelled");
+      } else {
+        setStatus(error instanceof Error ? error.message : "Failed to load file");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
     }
   };
 
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
   const onDrop = async (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     resetDrag();
@@ -63,8 +113,10 @@ export function ExcelUploader({ onParsed, disabled }: ExcelUploaderProps) {
   return (
     <Card className="border-dashed border-2 border-muted-foreground/40">
       <CardHeader>
-        <CardTitle>Upload Excel</CardTitle>
-        <CardDescription>Drag & drop or select a file to import data</CardDescription>
+        <CardTitle>Upload Data</CardTitle>
+        <CardDescription>
+          Drag & drop or select one or more Excel, ODS, CSV, TSV or JSON files to import data
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div
@@ -86,7 +138,8 @@ export function ExcelUploader({ onParsed, disabled }: ExcelUploaderProps) {
             ref={fileInputRef}
             className="hidden"
             type="file"
-            accept=".xlsx,.xls"
+            accept={ACCEPTED_TYPES}
+            multiple
             onChange={event => handleFiles(event.target.files)}
             disabled={disabled}
           />
@@ -98,9 +151,26 @@ export function ExcelUploader({ onParsed, disabled }: ExcelUploaderProps) {
             {" "}to select
           </p>
           <Button onClick={triggerBrowse} disabled={disabled} variant="secondary">
-            Select File
+            Select Files
           </Button>
-          {status ? <p className="text-xs text-muted-foreground">{status}</p> : null}
+          {progress ? (
+            <div className="flex w-full max-w-md flex-col gap-2">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${progressPercent(progress)}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <p className="truncate text-xs text-muted-foreground">{describeProgress(progress)}</p>
+                <Button variant="outline" size="sm" onClick={cancel}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : status ? (
+            <p className="text-xs text-muted-foreground">{status}</p>
+          ) : null}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { EXPORT_FORMATS, exportQueryResult, supportsFormat, type ExportFormat } from "@/lib/export";
+import type { GridSource } from "@/lib/grid-query";
+
+interface ExportMenuProps {
+  /** The result to export; queries are read from DuckDB again when exporting */
+  source: GridSource;
+  sql: string;
+  availableTables: string[];
+}
+
+export function ExportMenu({ source, sql, availableTables }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(format);
+    setStatus(null);
+    try {
+      const fileName = await exportQueryResult(format, source, sql, availableTables);
+      setStatus(`Saved ${fileName}`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Failed to export result");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {status ? <span className="truncate text-xs text-muted-foreground">{status}</span> : null}
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(open => !open)} disabled={exporting !== null}>
+        {exporting ? "Exporting..." : "Export"}
+      </Button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-10 mt-1 w-48 rounded-md border bg-popover p-1 shadow-md">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              type="button"
+              className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground disabled:pointer-events-none disabled:opacity-50"
+              disabled={!supportsFormat(format, source)}
+              onClick={() => handleExport(format)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -55,7 +55,7 @@ export function ImportConfigEditor({ config, onConfigChange, disabled }: ImportC
       <CardHeader>
         <CardTitle>Import Settings</CardTitle>
         <CardDescription>
-          Specify cell range (e.g., "A1:D20") and header settings per sheet in JSON format. Remove fields to use defaults.
+          Specify cell range (e.g., "A1:D20"), header settings and column type overrides per sheet in JSON format. Remove fields to use defaults.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
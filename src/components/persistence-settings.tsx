@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { PersistenceBackend } from "@/lib/persistence";
+
+interface PersistenceSettingsProps {
+  enabled: boolean;
+  backend: PersistenceBackend;
+  onEnabledChange: (enabled: boolean) => void;
+  onClear: () => void;
+  status?: string | null;
+  disabled?: boolean;
+}
+
+const BACKEND_LABELS: Record<PersistenceBackend, string> = {
+  opfs: "Origin Private File System",
+  indexeddb: "IndexedDB",
+};
+
+export function PersistenceSettings({
+  enabled,
+  backend,
+  onEnabledChange,
+  onClear,
+  status,
+  disabled,
+}: PersistenceSettingsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Local Storage</CardTitle>
+        <CardDescription>
+          Keep imported workbooks, their tables and import settings in this browser so they are restored after a
+          reload. Nothing is uploaded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={event => onEnabledChange(event.target.checked)}
+            disabled={disabled}
+          />
+          Keep data in this browser
+        </label>
+        <span className="text-xs text-muted-foreground">Storage: {BACKEND_LABELS[backend]}</span>
+        <Button variant="outline" size="sm" onClick={onClear} disabled={disabled}>
+          Clear local data
+        </Button>
+        {status ? <p className="w-full text-xs text-muted-foreground">{status}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
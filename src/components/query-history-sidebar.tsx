@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  deleteQueryHistoryEntry,
+  filterQueryHistory,
+  listQueryHistory,
+  updateQueryHistoryEntry,
+  type QueryHistoryEntry,
+} from "@/lib/query-history";
+import { cn } from "@/lib/utils";
+
+interface QueryHistorySidebarProps {
+  open: boolean;
+  onClose: () => void;
+  /** Bumped by the parent after each recorded execution so the list reloads */
+  refreshKey: number;
+  onLoad: (sql: string) => void;
+  onRun: (sql: string) => void;
+}
+
+function describeEntry(entry: QueryHistoryEntry) {
+  const time = new Date(entry.executedAt).toLocaleString();
+  if (entry.error) {
+    return `${time} · failed after ${entry.durationMs} ms`;
+  }
+  return `${time} · ${entry.rowCount ?? 0} rows · ${entry.durationMs} ms`;
+}
+
+export function QueryHistorySidebar({ open, onClose, refreshKey, onLoad, onRun }: QueryHistorySidebarProps) {
+  const [entries, setEntries] = useState<QueryHistoryEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setEntries(await listQueryHistory());
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load query history");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      void reload();
+    }
+  }, [open, refreshKey, reload]);
+
+  const visibleEntries = useMemo(() => filterQueryHistory(entries, search, starredOnly), [entries, search, starredOnly]);
+
+  const update = async (id: string, patch: Partial<Pick<QueryHistoryEntry, "starred" | "name">>) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+    try {
+      await updateQueryHistoryEntry(id, patch);
+    } catch (error) {
+      console.error("Failed to update query history entry:", error);
+      void reload();
+    }
+  };
+
+  const remove = async (id: string) => {
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    try {
+      await deleteQueryHistoryEntry(id);
+    } catch (error) {
+      console.error("Failed to delete query history entry:", error);
+      void reload();
+    }
+  };
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <aside className="fixed inset-y-0 left-0 z-40 flex w-96 max-w-full flex-col border-r bg-background shadow-xl">
+      <div className="flex items-center justify-between border-b p-4">
+        <h2 className="font-semibold">Query History</h2>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+      <div className="space-y-2 border-b p-4">
+        <Input value={search} onChange={event => setSearch(event.target.value)} placeholder="Search SQL or names" />
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={starredOnly} onChange={event => setStarredOnly(event.target.checked)} />
+          Starred only
+        </label>
+      </div>
+      <div className="flex-1 space-y-3 overflow-y-auto p-4">
+        {loadError ? <p className="text-sm text-destructive">{loadError}</p> : null}
+        {visibleEntries.length === 0 && !loadError ? (
+          <p className="text-sm text-muted-foreground">No queries yet.</p>
+        ) : null}
+        {visibleEntries.map(entry => (
+          <div key={entry.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn("px-2", entry.starred && "text-yellow-500")}
+                onClick={() => update(entry.id, { starred: !entry.starred })}
+                aria-label={entry.starred ? "Unstar query" : "Star query"}
+              >
+                {entry.starred ? "★" : "☆"}
+              </Button>
+              <Input
+                className="h-8"
+                value={entry.name ?? ""}
+                onChange={event => update(entry.id, { name: event.target.value || null })}
+                placeholder="Untitled query"
+              />
+            </div>
+            <pre className="max-h-24 overflow-hidden whitespace-pre-wrap break-all rounded bg-muted p-2 font-mono text-xs">
+              {entry.sql}
+            </pre>
+            <p className={cn("text-xs", entry.error ? "text-destructive" : "text-muted-foreground")}>
+              {describeEntry(entry)}
+            </p>
+            {entry.error ? <p className="line-clamp-2 text-xs text-destructive">{entry.error}</p> : null}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => onLoad(entry.sql)}>
+                Load
+              </Button>
+              <Button size="sm" onClick={() => onRun(entry.sql)}>
+                Run
+              </Button>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={() => remove(entry.id)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
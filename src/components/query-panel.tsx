@@ -1,56 +1,124 @@
-import { forwardRef, useEffect, useImperativeHandle, useState } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react";
 import Editor from "@monaco-editor/react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { SheetTable } from "@/components/sheet-table";
+import { ExportMenu } from "@/components/export-menu";
+import { QueryHistorySidebar } from "@/components/query-history-sidebar";
+import { DataGrid } from "@/components/data-grid";
+import { ChartBuilder } from "@/components/chart-builder";
+import type { GridSource } from "@/lib/grid-query";
+import { recordQueryExecution } from "@/lib/query-history";
+import { defaultChartTitle, type PinnedTile } from "@/lib/dashboard";
 
 export interface QueryResult {
   columns: string[];
-  rows: Record<string, unknown>[];
+  rowCount: number;
+  /** Every row for statements that cannot be re-queried; SELECT-like results stay in DuckDB and are paged */
+  rows: Record<string, unknown>[] | null;
 }
 
 interface QueryPanelProps {
   availableTables: string[];
   defaultQuery: string;
   onExecute: (query: string) => Promise<QueryResult>;
+  onAddToReport?: (query: string) => void;
+  onPinToDashboard?: (tile: PinnedTile) => void;
 }
 
 export interface QueryPanelRef {
   setQuery: (query: string) => void;
-  executeQuery: () => void;
+  /** Runs `sql` (or the editor contents) and rejects when the query fails */
+  executeQuery: (sql?: string) => Promise<QueryResult>;
 }
 
 export const QueryPanel = forwardRef<QueryPanelRef, QueryPanelProps>(
-  ({ availableTables, defaultQuery, onExecute }, ref) => {
+  ({ availableTables, defaultQuery, onExecute, onAddToReport, onPinToDashboard }, ref) => {
     const [query, setQuery] = useState(defaultQuery);
     const [result, setResult] = useState<QueryResult | null>(null);
+    const [resultQuery, setResultQuery] = useState("");
     const [isRunning, setIsRunning] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const [isCharting, setIsCharting] = useState(false);
+    const appliedDefaultRef = useRef(defaultQuery);
 
-    // Update query when defaultQuery changes (e.g., when sheet or table changes)
+    // Follow defaultQuery (e.g. when the sheet or table changes) only while the editor still
+    // holds the previous default, so edited queries are never overwritten
     useEffect(() => {
-      if (defaultQuery) {
-        setQuery(defaultQuery);
+      if (!defaultQuery) {
+        return;
       }
+      const previousDefault = appliedDefaultRef.current;
+      appliedDefaultRef.current = defaultQuery;
+      setQuery(current => (current.trim() === "" || current === previousDefault ? defaultQuery : current));
     }, [defaultQuery]);
 
-    const run = async () => {
+    const record = async (sql: string, startedAt: number, rowCount: number | null, errorMessage: string | null) => {
+      try {
+        await recordQueryExecution({
+          sql,
+          executedAt: Date.now(),
+          durationMs: Math.round(performance.now() - startedAt),
+          rowCount,
+          error: errorMessage,
+        });
+        setHistoryVersion(version => version + 1);
+      } catch (err) {
+        console.error("Failed to record query history:", err);
+      }
+    };
+
+    const execute = async (sql: string) => {
+      const startedAt = performance.now();
       try {
         setIsRunning(true);
         setError(null);
-        const response = await onExecute(query);
+        const response = await onExecute(sql);
         setResult(response);
+        setResultQuery(sql);
+        void record(sql, startedAt, response.rowCount, null);
+        return response;
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to execute query");
+        const message = err instanceof Error ? err.message : "Failed to execute query";
+        setError(message);
+        void record(sql, startedAt, null, message);
+        throw err;
       } finally {
         setIsRunning(false);
       }
     };
 
+    // SELECT-like results are re-queried page by page so sorting and filtering run in DuckDB
+    const resultSource = useMemo<GridSource | null>(() => {
+      if (!result) {
+        return null;
+      }
+      return result.rows
+        ? { kind: "rows", columns: result.columns, rows: result.rows }
+        : { kind: "query", sql: resultQuery };
+    }, [result, resultQuery]);
+
+    // Tiles re-run their SQL, so only results that can be re-queried are pinnable
+    const pinResult =
+      onPinToDashboard && resultSource?.kind === "query"
+        ? (tile: PinnedTile) => onPinToDashboard(tile)
+        : undefined;
+
+    // The error is already shown in the panel
+    const run = (sql = query) => {
+      execute(sql).catch(() => undefined);
+    };
+
+    const runFromHistory = (sql: string) => {
+      setQuery(sql);
+      run(sql);
+    };
+
     // Expose methods to parent via ref
     useImperativeHandle(ref, () => ({
       setQuery,
-      executeQuery: run,
+      executeQuery: (sql?: string) => execute(sql ?? query),
     }));
 
     return (
@@ -75,22 +143,76 @@ export const QueryPanel = forwardRef<QueryPanelRef, QueryPanelProps>(
             }}
           />
         </div>
-        <Button onClick={run} disabled={isRunning}>
-          {isRunning ? "Running..." : "Execute Query"}
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => run()} disabled={isRunning}>
+            {isRunning ? "Running..." : "Execute Query"}
+          </Button>
+          <Button variant="outline" onClick={() => setIsHistoryOpen(open => !open)}>
+            History
+          </Button>
+          {onAddToReport ? (
+            <Button variant="outline" onClick={() => onAddToReport(query)} disabled={!query.trim()}>
+              Add to report
+            </Button>
+          ) : null}
+        </div>
         {error ? <p className="text-sm text-destructive">{error}</p> : null}
-        {result ? (
+        {result && resultSource ? (
           <div className="space-y-2">
-            <h3 className="font-medium">Results</h3>
-            <div className="max-h-[400px] overflow-auto">
-              <SheetTable columns={result.columns} rows={result.rows} limit={100} />
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-medium">Results</h3>
+              <div className="flex items-center gap-2">
+                {pinResult ? (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pinResult({ kind: "table", title: "Query result", sql: resultQuery })}
+                    >
+                      Pin table
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pinResult({ kind: "kpi", title: result.columns[0] ?? "KPI", sql: resultQuery, column: null })}
+                    >
+                      Pin KPI
+                    </Button>
+                  </>
+                ) : null}
+                <Button variant="outline" size="sm" onClick={() => setIsCharting(open => !open)}>
+                  {isCharting ? "Hide chart" : "Chart this result"}
+                </Button>
+                <ExportMenu source={resultSource} sql={resultQuery} availableTables={availableTables} />
+              </div>
             </div>
+            <DataGrid source={resultSource} />
+            {/* Follows the latest execution; the chart settings stay while their columns exist */}
+            {isCharting ? (
+              <ChartBuilder
+                source={resultSource}
+                sourceLabel="the query result"
+                refreshKey={result}
+                onPin={
+                  pinResult
+                    ? spec => pinResult({ kind: "chart", title: defaultChartTitle(spec), sql: resultQuery, spec })
+                    : undefined
+                }
+              />
+            ) : null}
           </div>
         ) : null}
       </CardContent>
       <CardFooter>
         <p className="text-xs text-muted-foreground">DuckDB Wasm runs in-browser, so your data stays local.</p>
       </CardFooter>
+      <QueryHistorySidebar
+        open={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        refreshKey={historyVersion}
+        onLoad={setQuery}
+        onRun={runFromHistory}
+      />
     </Card>
     );
   },
@@ -3,11 +3,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { ParsedWorkbook } from "@/lib/excel";
-import type { WorkbookSelectionConfig } from "@/lib/selection";
+import { COLUMN_TYPES, type ColumnType } from "@/lib/schema";
+import type { ProcessedWorkbook, WorkbookSelectionConfig } from "@/lib/selection";
 import { cn } from "@/lib/utils";
 
 interface RangeSelectorProps {
   workbook: ParsedWorkbook;
+  processed?: ProcessedWorkbook | null;
   config: WorkbookSelectionConfig;
   onConfigChange: (config: WorkbookSelectionConfig) => void;
   disabled?: boolean;
@@ -59,7 +61,9 @@ function isCellInSelection(row: number, col: number, selection: SelectionState):
   return row >= minRow && row <= maxRow && col >= minCol && col <= maxCol;
 }
 
-export function RangeSelector({ workbook, config, onConfigChange, disabled }: RangeSelectorProps) {
+const AUTO_TYPE = "auto";
+
+export function RangeSelector({ workbook, processed, config, onConfigChange, disabled }: RangeSelectorProps) {
   const [selectedSheet, setSelectedSheet] = useState<string>(() => workbook.sheets[0]?.name ?? "");
   const [selection, setSelection] = useState<SelectionState>({ start: null, end: null });
   const [isSelecting, setIsSelecting] = useState(false);
@@ -134,6 +138,7 @@ export function RangeSelector({ workbook, config, onConfigChange, disabled }: Ra
     // Only update if something actually changed
     if (range !== currentRange || firstRowIsHeader !== currentFirstRowIsHeader) {
       const newSheetConfig = {
+        ...config.sheets?.[selectedSheet],
         range,
         firstRowIsHeader,
       };
@@ -157,6 +162,7 @@ export function RangeSelector({ workbook, config, onConfigChange, disabled }: Ra
         sheets: {
           ...config.sheets,
           [selectedSheet]: {
+            ...config.sheets?.[selectedSheet],
             range: currentRange,
             firstRowIsHeader: isHeader,
           },
@@ -167,6 +173,33 @@ export function RangeSelector({ workbook, config, onConfigChange, disabled }: Ra
     [config.sheets, onConfigChange, selectedSheet],
   );
 
+  const currentSchema = useMemo(() => {
+    return processed?.sheets.find(sheet => sheet.name === selectedSheet)?.schema ?? [];
+  }, [processed, selectedSheet]);
+
+  const handleColumnTypeChange = useCallback(
+    (column: string, value: string) => {
+      const sheetConfig = config.sheets?.[selectedSheet] ?? { range: "", firstRowIsHeader: true };
+      const columnTypes = { ...sheetConfig.columnTypes };
+      if (value === AUTO_TYPE) {
+        delete columnTypes[column];
+      } else {
+        columnTypes[column] = value as ColumnType;
+      }
+      const newConfig: WorkbookSelectionConfig = {
+        sheets: {
+          ...config.sheets,
+          [selectedSheet]: {
+            ...sheetConfig,
+            columnTypes,
+          },
+        },
+      };
+      onConfigChange(newConfig);
+    },
+    [config.sheets, onConfigChange, selectedSheet],
+  );
+
   const previewRows = useMemo(() => {
     return currentSheet?.matrix.slice(0, 20) ?? [];
   }, [currentSheet]);
@@ -272,6 +305,41 @@ export function RangeSelector({ workbook, config, onConfigChange, disabled }: Ra
           </table>
         </div>
 
+        {currentSchema.length > 0 ? (
+          <div className="space-y-2">
+            <Label>Column types:</Label>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {currentSchema.map(column => {
+                const override = currentConfig.columnTypes?.[column.name];
+                return (
+                  <div key={column.name} className="flex items-center justify-between gap-2 rounded-md border px-2 py-1">
+                    <span className="truncate text-sm" title={column.name}>
+                      {column.name}
+                    </span>
+                    <Select
+                      value={override ?? AUTO_TYPE}
+                      onValueChange={value => handleColumnTypeChange(column.name, value)}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO_TYPE}>Auto ({column.inferredType})</SelectItem>
+                        {COLUMN_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : null}
+
         <p className="text-xs text-muted-foreground">
           Drag across cells to select a range. The selection will be applied automatically. To reset, simply select a new range.
         </p>
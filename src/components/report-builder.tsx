@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { buildExportFileName, downloadFile, MIME_TYPES } from "@/lib/export";
+import { buildReportWorkbook, type ReportQuery, type ReportSheet } from "@/lib/report";
+
+interface ReportBuilderProps {
+  queries: ReportQuery[];
+  onQueriesChange: (queries: ReportQuery[]) => void;
+  sheets: ReportSheet[];
+  disabled?: boolean;
+}
+
+export function ReportBuilder({ queries, onQueriesChange, sheets, disabled }: ReportBuilderProps) {
+  const [includedSheets, setIncludedSheets] = useState<string[]>([]);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const updateQuery = (id: string, patch: Partial<ReportQuery>) => {
+    onQueriesChange(queries.map(query => (query.id === id ? { ...query, ...patch } : query)));
+  };
+
+  const toggleSheet = (label: string) => {
+    setIncludedSheets(prev => (prev.includes(label) ? prev.filter(item => item !== label) : [...prev, label]));
+  };
+
+  const build = async () => {
+    setIsBuilding(true);
+    setStatus(null);
+    try {
+      const selectedSheets = sheets.filter(sheet => includedSheets.includes(sheet.label));
+      const report = await buildReportWorkbook(queries, selectedSheets);
+      const fileName = buildExportFileName("report", "xlsx");
+      downloadFile(report.data, fileName, MIME_TYPES.xlsx);
+      const failed = report.outcomes.filter(outcome => outcome.error !== null).length;
+      setStatus(failed > 0 ? `Saved ${fileName} (${failed} query(s) failed, see Summary sheet)` : `Saved ${fileName}`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Failed to build report");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const canBuild = queries.length > 0 || includedSheets.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Report Workbook</CardTitle>
+        <CardDescription>
+          Collect named query results and processed sheets into one .xlsx with a summary sheet. Use "Add to report" in
+          the SQL panel to collect queries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {queries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No queries added yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {queries.map(query => (
+              <div key={query.id} className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={query.name}
+                    onChange={event => updateQuery(query.id, { name: event.target.value })}
+                    placeholder="Sheet name"
+                    disabled={disabled || isBuilding}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onQueriesChange(queries.filter(item => item.id !== query.id))}
+                    disabled={disabled || isBuilding}
+                  >
+                    Remove
+                  </Button>
+                </div>
+                <Textarea
+                  className="font-mono text-xs"
+                  value={query.sql}
+                  onChange={event => updateQuery(query.id, { sql: event.target.value })}
+                  disabled={disabled || isBuilding}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {sheets.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Include processed sheets</p>
+            <div className="flex flex-wrap gap-3">
+              {sheets.map(sheet => (
+                <label key={sheet.label} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includedSheets.includes(sheet.label)}
+                    onChange={() => toggleSheet(sheet.label)}
+                    disabled={disabled || isBuilding}
+                  />
+                  {sheet.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={build} disabled={disabled || isBuilding || !canBuild}>
+            {isBuilding ? "Building..." : "Build report workbook"}
+          </Button>
+          {status ? <p className="text-xs text-muted-foreground">{status}</p> : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DataGrid, type DataGridEditing } from "@/components/data-grid";
+import {
+  applyEditsToMatrix,
+  assertEditsMatchTable,
+  buildEditedWorkbook,
+  editCell,
+  editLogFor,
+  netEdits,
+  parseCellInput,
+  writeCellText,
+  type EditLog,
+  type SheetEditLogs,
+} from "@/lib/cell-edits";
+import { buildExportFileName, downloadFile, MIME_TYPES } from "@/lib/export";
+import type { GridSource } from "@/lib/grid-query";
+import type { ProcessedSheet } from "@/lib/selection";
+import type { SessionWorkbook } from "@/lib/session";
+
+interface SheetEditorProps {
+  workbook: SessionWorkbook;
+  sheet: ProcessedSheet;
+  tableName: string;
+  editLogs: SheetEditLogs;
+  onEditLogsChange: (update: (logs: SheetEditLogs) => SheetEditLogs) => void;
+  /** Called after an edit, undo or redo changed the table, e.g. to save it and refresh other views */
+  onTableChange?: (tableName: string) => void;
+  height?: number;
+}
+
+/**
+ * The sheet grid with an edit mode. Edits are written to the registered table with `UPDATE`,
+ * kept in an undo/redo log, and can be saved into a copy of the original workbook.
+ */
+export function SheetEditor({
+  workbook,
+  sheet,
+  tableName,
+  editLogs,
+  onEditLogsChange,
+  onTableChange,
+  height,
+}: SheetEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [rowsVersion, setRowsVersion] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const source = useMemo<GridSource>(() => ({ kind: "table", tableName }), [tableName]);
+  const log = editLogFor(editLogs, tableName, sheet);
+  const dirtyCells = useMemo(() => new Set(netEdits(log).keys()), [log]);
+  const columnTypes = useMemo(
+    () => Object.fromEntries(sheet.schema.map(column => [column.name, column.type])),
+    [sheet.schema],
+  );
+
+  const setLog = (next: EditLog) => {
+    onEditLogsChange(logs => ({ ...logs, [tableName]: { sheet, log: next } }));
+  };
+
+  const onEditCell: DataGridEditing["onEditCell"] = async (rowId, column, text) => {
+    const type = columnTypes[column];
+    if (!type) {
+      return `Unknown column "${column}"`;
+    }
+    const parsed = parseCellInput(text, type);
+    if ("error" in parsed) {
+      return parsed.error;
+    }
+    try {
+      const edit = await editCell(tableName, rowId, column, parsed.value, type);
+      if (edit.nextText !== edit.previousText) {
+        // A new edit discards the redo history
+        setLog({ edits: [...log.edits.slice(0, log.applied), edit], applied: log.applied + 1 });
+        setRowsVersion(version => version + 1);
+        onTableChange?.(tableName);
+      }
+      setStatus(null);
+      return null;
+    } catch (error) {
+      console.error("Failed to update cell:", error);
+      return error instanceof Error ? error.message : "Failed to update cell";
+    }
+  };
+
+  const step = async (direction: "undo" | "redo") => {
+    const index = direction === "undo" ? log.applied - 1 : log.applied;
+    const edit = log.edits[index];
+    const type = edit ? columnTypes[edit.column] : undefined;
+    if (!edit || !type) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await writeCellText(tableName, edit.rowId, edit.column, direction === "undo" ? edit.previousText : edit.nextText, type);
+      setLog({ ...log, applied: direction === "undo" ? index : index + 1 });
+      setRowsVersion(version => version + 1);
+      onTableChange?.(tableName);
+      setStatus(null);
+    } catch (error) {
+      console.error(`Failed to ${direction} edit:`, error);
+      setStatus(error instanceof Error ? error.message : `Failed to ${direction}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveWorkbook = async () => {
+    setIsBusy(true);
+    try {
+      // Every sheet of this workbook with current edits goes into the copy, not only the visible one
+      const editedMatrices: Record<string, unknown[][]> = {};
+      for (const [index, processedSheet] of workbook.processed.sheets.entries()) {
+        const sheetTable = workbook.tableMap[processedSheet.name];
+        const raw = workbook.raw.sheets[index];
+        const sheetLog = sheetTable ? editLogFor(editLogs, sheetTable, processedSheet) : null;
+        if (sheetTable && raw && sheetLog && netEdits(sheetLog).size > 0) {
+          await assertEditsMatchTable(sheetTable, processedSheet, sheetLog);
+          editedMatrices[raw.name] = applyEditsToMatrix(raw.matrix, processedSheet, sheetLog);
+        }
+      }
+      const base = workbook.raw.fileName.replace(/\.[^/.]+$/, "");
+      const fileName = buildExportFileName(`${base}_edited`, "xlsx");
+      downloadFile(buildEditedWorkbook(workbook.raw, editedMatrices), fileName, MIME_TYPES.xlsx);
+      setStatus(`Saved ${fileName}`);
+    } catch (error) {
+      console.error("Failed to save workbook:", error);
+      setStatus(error instanceof Error ? error.message : "Failed to save workbook");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!isEditing || !(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === "z" || key === "y") {
+      event.preventDefault();
+      void step(key === "y" || event.shiftKey ? "redo" : "undo");
+    }
+  };
+
+  const editing: DataGridEditing | undefined = isEditing ? { dirtyCells, onEditCell } : undefined;
+
+  return (
+    <div className="space-y-2" onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant={isEditing ? "secondary" : "outline"} size="sm" onClick={() => setIsEditing(value => !value)}>
+          {isEditing ? "Done editing" : "Edit cells"}
+        </Button>
+        {isEditing ? (
+          <>
+            <Button variant="outline" size="sm" onClick={() => step("undo")} disabled={isBusy || log.applied === 0}>
+              Undo
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => step("redo")}
+              disabled={isBusy || log.applied >= log.edits.length}
+            >
+              Redo
+            </Button>
+          </>
+        ) : null}
+        <Button variant="outline" size="sm" onClick={saveWorkbook} disabled={isBusy || dirtyCells.size === 0}>
+          Save as new .xlsx
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {status ??
+            (dirtyCells.size > 0
+              ? `${dirtyCells.size} edited cell(s). Changing the import settings reloads the sheet and discards them.`
+              : null)}
+        </span>
+      </div>
+      <DataGrid
+        source={source}
+        refreshKey={sheet}
+        rowsVersion={rowsVersion}
+        editing={editing}
+        height={height}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { profileTable, type ColumnProfile, type TableProfile } from "@/lib/profiling";
+
+interface SheetProfileProps {
+  tableName: string;
+  /** The table is profiled again whenever this changes, e.g. after the sheet is re-registered */
+  refreshKey?: unknown;
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+function formatNumber(value: number | null) {
+  return value === null ? "" : numberFormat.format(value);
+}
+
+function formatPercent(part: number, total: number) {
+  return total > 0 ? `${numberFormat.format((part / total) * 100)}%` : "";
+}
+
+function Histogram({ column }: { column: ColumnProfile }) {
+  const peak = Math.max(1, ...column.histogram.map(bucket => bucket.count));
+  return (
+    <div className="flex h-10 w-40 items-end gap-px">
+      {column.histogram.map((bucket, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-primary/70"
+          style={{ height: `${Math.max((bucket.count / peak) * 100, bucket.count > 0 ? 4 : 0)}%` }}
+          title={`${formatNumber(bucket.from)} – ${formatNumber(bucket.to)}: ${bucket.count}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function TopValues({ column, rowCount }: { column: ColumnProfile; rowCount: number }) {
+  const peak = Math.max(1, ...column.topValues.map(top => top.count));
+  return (
+    <ul className="w-48 space-y-0.5">
+      {column.topValues.map(top => (
+        <li key={top.value} className="relative text-xs" title={`${top.count} (${formatPercent(top.count, rowCount)})`}>
+          <div className="absolute inset-y-0 left-0 rounded-sm bg-primary/15" style={{ width: `${(top.count / peak) * 100}%` }} />
+          <div className="relative flex justify-between gap-2 px-1">
+            <span className="truncate">{top.value}</span>
+            <span className="shrink-0 text-muted-foreground">{top.count}</span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function SheetProfile({ tableName, refreshKey }: SheetProfileProps) {
+  const [profile, setProfile] = useState<TableProfile | null>(null);
+  const [isProfiling, setIsProfiling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (isCurrent: () => boolean = () => true) => {
+    setIsProfiling(true);
+    setError(null);
+    try {
+      const next = await profileTable(tableName);
+      if (isCurrent()) {
+        setProfile(next);
+      }
+    } catch (profileError) {
+      console.error("Failed to profile table:", profileError);
+      if (isCurrent()) {
+        setProfile(null);
+        setError(profileError instanceof Error ? profileError.message : "Failed to profile table");
+      }
+    } finally {
+      if (isCurrent()) {
+        setIsProfiling(false);
+      }
+    }
+  }, [tableName]);
+
+  useEffect(() => {
+    let current = true;
+    setProfile(null);
+    run(() => current);
+    return () => {
+      current = false;
+    };
+  }, [run, refreshKey]);
+
+  return (
+    <Card className="min-w-0">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="min-w-0">
+          <CardTitle>Profile</CardTitle>
+          <CardDescription className="truncate">
+            {profile
+              ? `${profile.rowCount} rows, ${profile.columns.length} columns in ${tableName}`
+              : `Column statistics for ${tableName}`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => run()} disabled={isProfiling}>
+          {isProfiling ? "Profiling..." : "Refresh"}
+        </Button>
+      </CardHeader>
+      <CardContent className="min-w-0">
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        {!profile && !error ? <p className="text-sm text-muted-foreground">Profiling...</p> : null}
+        {profile ? (
+          <div className="overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Nulls</TableHead>
+                  <TableHead className="text-right">Distinct</TableHead>
+                  <TableHead>Min</TableHead>
+                  <TableHead>Max</TableHead>
+                  <TableHead className="text-right">Mean</TableHead>
+                  <TableHead className="text-right">Std dev</TableHead>
+                  <TableHead>Distribution</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profile.columns.map(column => (
+                  <TableRow key={column.name}>
+                    <TableCell className="font-medium">{column.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{column.type}</TableCell>
+                    <TableCell className="text-right" title={formatPercent(column.nullCount, profile.rowCount)}>
+                      {column.nullCount}
+                    </TableCell>
+                    <TableCell className="text-right">~{column.distinctCount}</TableCell>
+                    <TableCell className="max-w-[10rem] truncate">{column.min}</TableCell>
+                    <TableCell className="max-w-[10rem] truncate">{column.max}</TableCell>
+                    <TableCell className="text-right">{formatNumber(column.mean)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(column.stddev)}</TableCell>
+                    <TableCell>
+                      {column.histogram.length > 0 ? (
+                        <Histogram column={column} />
+                      ) : column.topValues.length > 0 ? (
+                        <TopValues column={column} rowCount={profile.rowCount} />
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
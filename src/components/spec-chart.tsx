@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import { Chart } from "react-chartjs-2";
+import {
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  LogarithmicScale,
+  PointElement,
+  Title,
+  Tooltip,
+} from "chart.js";
+import { buildChartData, buildChartOptions, chartJsType, type ChartSource, type ChartSpec } from "@/lib/chart-spec";
+import { cn } from "@/lib/utils";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  LogarithmicScale,
+  BarElement,
+  LineElement,
+  PointElement,
+  ArcElement,
+  Filler,
+  Title,
+  Tooltip,
+  Legend,
+);
+
+interface SpecChartProps {
+  spec: ChartSpec;
+  source: ChartSource;
+  className?: string;
+  /** Fill the container's height instead of keeping the default aspect ratio, e.g. in a sized tile */
+  fillHeight?: boolean;
+}
+
+/**
+ * Renders a chart spec against a result. Columns are looked up by name on every render,
+ * so the chart follows the data when the same query runs again.
+ */
+export function SpecChart({ spec, source, className, fillHeight = false }: SpecChartProps) {
+  const data = useMemo(() => buildChartData(spec, source), [spec, source]);
+  const options = useMemo(
+    () => (fillHeight ? { ...buildChartOptions(spec), maintainAspectRatio: false } : buildChartOptions(spec)),
+    [spec, fillHeight],
+  );
+
+  if (!data) {
+    return (
+      <p className={cn("text-xs text-muted-foreground", className)}>
+        The chart needs a column "{spec.x}" and numeric column(s) {spec.y.map(column => `"${column}"`).join(", ")} in the result.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("min-w-0", fillHeight && "relative h-full", className)}>
+      <Chart type={chartJsType(spec.kind)} data={data} options={options} />
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { SessionWorkbook } from "@/lib/session";
+import { cn } from "@/lib/utils";
+
+interface WorkbookListProps {
+  workbooks: SessionWorkbook[];
+  activeWorkbookId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function WorkbookList({ workbooks, activeWorkbookId, onSelect, onRemove, disabled }: WorkbookListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workbooks</CardTitle>
+        <CardDescription>
+          Every loaded workbook stays queryable. Tables are removed only when their workbook is removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {workbooks.map(workbook => {
+          const tables = Object.values(workbook.tableMap);
+          const isActive = workbook.id === activeWorkbookId;
+          return (
+            <div
+              key={workbook.id}
+              className={cn(
+                "flex items-center justify-between gap-3 rounded-md border px-3 py-2",
+                isActive && "border-primary bg-primary/10",
+              )}
+            >
+              <button
+                type="button"
+                className="min-w-0 flex-1 text-left"
+                onClick={() => onSelect(workbook.id)}
+                disabled={disabled}
+              >
+                <p className="truncate text-sm font-medium">{workbook.raw.fileName}</p>
+                <p className="truncate text-xs font-mono text-muted-foreground">
+                  {tables.length > 0 ? tables.join(", ") : "No tables registered"}
+                </p>
+              </button>
+              <Button variant="ghost" size="sm" onClick={() => onRemove(workbook.id)} disabled={disabled}>
+                Remove
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,11 @@ if (import.meta.hot) {
   // With hot module reloading, `import.meta.hot.data` is persisted.
   const root = (import.meta.hot.data.root ??= createRoot(elem));
   root.render(app);
+
+  // Expose the table registration benchmark to the browser console during development.
+  import("./lib/benchmark").then(({ benchmarkRegistration }) => {
+    Object.assign(window, { benchmarkRegistration });
+  });
 } else {
   // The hot module reloading API is not available in production.
   createRoot(elem).render(app);
@@ -1,22 +1,78 @@
 import { serve } from "bun";
+import path from "path";
 import index from "./index.html";
+import { isDuckDBAssetFile } from "./lib/duckdb-assets";
+import { handleChatRequest } from "./server/chat-proxy";
+
+const isProduction = process.env.NODE_ENV === "production";
+
+const workerEntrypoints: Record<string, string> = {
+  "parse.worker.js": path.join(import.meta.dir, "lib/parse.worker.ts"),
+};
+
+const workerBundles = new Map<string, Promise<string>>();
+
+// HTML imports do not bundle `new Worker(...)` targets, so workers are built on demand
+async function buildWorker(entrypoint: string) {
+  const result = await Bun.build({
+    entrypoints: [entrypoint],
+    target: "browser",
+    format: "esm",
+    minify: isProduction,
+  });
+  const [output] = result.outputs;
+  if (!result.success || !output) {
+    throw new AggregateError(result.logs, `Failed to build worker ${entrypoint}`);
+  }
+  return output.text();
+}
+
+function getWorkerBundle(name: string, entrypoint: string) {
+  // Rebuild on every request in development so edits to the worker are picked up
+  if (!isProduction) {
+    return buildWorker(entrypoint);
+  }
+  let bundle = workerBundles.get(name);
+  if (!bundle) {
+    bundle = buildWorker(entrypoint);
+    workerBundles.set(name, bundle);
+  }
+  return bundle;
+}
+
+async function serveWorker(name: string) {
+  const entrypoint = workerEntrypoints[name];
+  if (!entrypoint) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(await getWorkerBundle(name, entrypoint), {
+    headers: { "Content-Type": "text/javascript; charset=utf-8" },
+  });
+}
+
+const duckdbDistDir = path.dirname(Bun.resolveSync("@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm", import.meta.dir));
+
+function serveDuckDBAsset(fileName: string) {
+  if (!isDuckDBAssetFile(fileName)) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(Bun.file(path.join(duckdbDistDir, fileName)), {
+    headers: isProduction ? { "Cache-Control": "public, max-age=86400" } : {},
+  });
+}
 
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
 
-    "/api/config": {
-      async GET(req) {
-        return Response.json({
-          azureOpenAI: {
-            endpoint: process.env.VITE_AZURE_OPENAI_ENDPOINT || "",
-            apiKey: process.env.VITE_AZURE_OPENAI_API_KEY || "",
-            deployment: process.env.VITE_AZURE_OPENAI_DEPLOYMENT || "",
-            apiVersion: process.env.VITE_AZURE_OPENAI_API_VERSION || "",
-          },
-        });
-      },
+    "/parse.worker.js": () => serveWorker("parse.worker.js"),
+
+    // Self-hosted DuckDB Wasm modules and workers
+    "/duckdb/:file": req => serveDuckDBAsset(req.params.file),
+
+    "/api/chat": {
+      POST: (req, server) => handleChatRequest(req, server.requestIP(req)?.address ?? null),
     },
 
     "/api/hello": {
@@ -42,7 +98,7 @@ const server = serve({
     },
   },
 
-  development: process.env.NODE_ENV !== "production" && {
+  development: !isProduction && {
     // Enable browser hot reloading in development
     hmr: true,
 
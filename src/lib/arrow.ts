@@ -0,0 +1,83 @@
+import {
+  Bool,
+  DateDay,
+  Float64,
+  Int64,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  vectorFromArray,
+  type DataType,
+  type Vector,
+} from "apache-arrow";
+import { coerceValue, type ColumnSchema, type ColumnType } from "./schema";
+
+export const DEFAULT_ARROW_BATCH_SIZE = 50_000;
+
+// Arrow dates are zone-less epoch values, so encode the local wall-clock time as if it were UTC
+function toWallClockEpochMs(date: Date) {
+  return Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+}
+
+function arrowTypeFor(type: ColumnType): DataType {
+  switch (type) {
+    case "BIGINT":
+      return new Int64();
+    case "DOUBLE":
+      return new Float64();
+    case "DATE":
+      return new DateDay();
+    case "TIMESTAMP":
+      return new TimestampMillisecond();
+    case "BOOLEAN":
+      return new Bool();
+    case "VARCHAR":
+      return new Utf8();
+  }
+}
+
+function toArrowValue(value: unknown, type: ColumnType) {
+  const coerced = coerceValue(value, type);
+  if (coerced === null) {
+    return null;
+  }
+  if (coerced instanceof Date) {
+    return toWallClockEpochMs(coerced);
+  }
+  if (type === "BIGINT") {
+    return BigInt(coerced as number | bigint);
+  }
+  return coerced;
+}
+
+function buildColumnVector(column: ColumnSchema, rows: Record<string, unknown>[]): Vector {
+  const values = rows.map(row => toArrowValue(row[column.name], column.type));
+  return vectorFromArray(values, arrowTypeFor(column.type));
+}
+
+/**
+ * Builds one Arrow table per batch of rows, typed according to the column schema.
+ * Batches are produced lazily so only one of them is materialised at a time.
+ */
+export function* buildArrowBatches(
+  schema: ColumnSchema[],
+  rows: Record<string, unknown>[],
+  batchSize = DEFAULT_ARROW_BATCH_SIZE,
+): Generator<Table> {
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const slice = rows.slice(start, start + batchSize);
+    const vectors: Record<string, Vector> = {};
+    schema.forEach(column => {
+      vectors[column.name] = buildColumnVector(column, slice);
+    });
+    yield new Table(vectors);
+  }
+}
@@ -0,0 +1,123 @@
+import { dropTable, registerArrowTable, registerCsvAsTable, runQuery } from "./duckdb";
+import type { ParsedSheet } from "./excel";
+import { applySelection, rowsToCsv, type ProcessedSheet } from "./selection";
+
+export interface RegistrationBenchmarkResult {
+  path: "csv" | "arrow";
+  rows: number;
+  prepareMs: number;
+  registerMs: number;
+  totalMs: number;
+  heapDeltaMb: number | null;
+}
+
+const BENCHMARK_COLUMNS = ["id", "code", "category", "amount", "ordered_at", "shipped"];
+const CATEGORIES = ["north", "south", "east", "west"];
+
+function readHeapMb() {
+  // performance.memory is only exposed by Chromium-based browsers
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize / (1024 * 1024) : null;
+}
+
+function heapDelta(before: number | null) {
+  const after = readHeapMb();
+  return before === null || after === null ? null : Math.round((after - before) * 10) / 10;
+}
+
+/**
+ * Generates a sheet with one header row and `rowCount` data rows covering every column type.
+ */
+export function generateBenchmarkSheet(rowCount: number): ParsedSheet {
+  const matrix: unknown[][] = [BENCHMARK_COLUMNS];
+  const cellTypes: ParsedSheet["cellTypes"] = [BENCHMARK_COLUMNS.map(() => "s" as const)];
+  const start = new Date(2024, 0, 1).getTime();
+  for (let index = 0; index < rowCount; index += 1) {
+    matrix.push([
+      index + 1,
+      String(index).padStart(8, "0"),
+      CATEGORIES[index % CATEGORIES.length],
+      Math.round(Math.sin(index) * 100_000) / 100,
+      new Date(start + (index % 365) * 86_400_000),
+      index % 3 === 0,
+    ]);
+    cellTypes.push(["n", "s", "s", "n", "d", "b"]);
+  }
+  return {
+    name: "benchmark",
+    columns: BENCHMARK_COLUMNS,
+    rows: [],
+    matrix,
+    cellTypes,
+  };
+}
+
+async function countRows(tableName: string) {
+  const result = await runQuery(`SELECT COUNT(*) AS total FROM "${tableName}"`);
+  return Number(result.toArray()[0]?.total ?? 0);
+}
+
+async function measure(
+  path: RegistrationBenchmarkResult["path"],
+  sheet: ProcessedSheet,
+  prepare: () => string | null,
+  register: (prepared: string | null) => Promise<void>,
+  tableName: string,
+): Promise<RegistrationBenchmarkResult> {
+  const heapBefore = readHeapMb();
+  const started = performance.now();
+  const prepared = prepare();
+  const preparedAt = performance.now();
+  await register(prepared);
+  const finished = performance.now();
+  const heapDeltaMb = heapDelta(heapBefore);
+
+  const registered = await countRows(tableName);
+  await dropTable(tableName);
+  if (registered !== sheet.rows.length) {
+    throw new Error(`${path} path registered ${registered} of ${sheet.rows.length} rows`);
+  }
+
+  return {
+    path,
+    rows: registered,
+    prepareMs: Math.round(preparedAt - started),
+    registerMs: Math.round(finished - preparedAt),
+    totalMs: Math.round(finished - started),
+    heapDeltaMb,
+  };
+}
+
+/**
+ * Registers the same generated sheet through the CSV text path and the Arrow path
+ * and reports the time spent in each. The CSV path includes building the CSV text,
+ * since that is part of its cost.
+ *
+ * Available as `window.benchmarkRegistration()` in the development server.
+ */
+export async function benchmarkRegistration(rowCount = 500_000): Promise<RegistrationBenchmarkResult[]> {
+  const parsed = generateBenchmarkSheet(rowCount);
+  const [sheet] = applySelection({ fileName: "benchmark.xlsx", sheets: [parsed] }, {}).sheets;
+  if (!sheet) {
+    throw new Error("Benchmark sheet could not be generated");
+  }
+
+  const results = [
+    await measure(
+      "csv",
+      sheet,
+      () => rowsToCsv(sheet.columns, sheet.rows),
+      csv => registerCsvAsTable("benchmark_csv", csv ?? ""),
+      "benchmark_csv",
+    ),
+    await measure(
+      "arrow",
+      sheet,
+      () => null,
+      () => registerArrowTable("benchmark_arrow", sheet.schema, sheet.rows),
+      "benchmark_arrow",
+    ),
+  ];
+  console.table(results);
+  return results;
+}
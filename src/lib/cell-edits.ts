@@ -0,0 +1,172 @@
+import { utils, write } from "xlsx";
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import type { ParsedWorkbook } from "./excel";
+import { toDateCell, toSheetName } from "./export";
+import { coerceValue, quoteIdentifier, toSqlLiteral, type ColumnType } from "./schema";
+import type { ProcessedSheet } from "./selection";
+
+/**
+ * One cell change. The texts are DuckDB's own rendering of the value before and after,
+ * so undo and redo restore exactly what was stored; `value` is what goes into the workbook.
+ */
+export interface CellEdit {
+  rowId: number;
+  column: string;
+  previousText: string | null;
+  nextText: string | null;
+  value: unknown;
+}
+
+/** Edits in the order they were made; only the first `applied` are in effect, the rest can be redone */
+export interface EditLog {
+  edits: CellEdit[];
+  applied: number;
+}
+
+export const EMPTY_EDIT_LOG: EditLog = { edits: [], applied: 0 };
+
+export function cellKey(rowId: number, column: string) {
+  return `${rowId}:${column}`;
+}
+
+/**
+ * Converts typed text to a value of the column type. Blank text clears the cell.
+ */
+export function parseCellInput(text: string, type: ColumnType): { value: unknown } | { error: string } {
+  if (text.trim() === "") {
+    return { value: null };
+  }
+  const value = coerceValue(type === "VARCHAR" ? text : text.trim(), type);
+  return value === null ? { error: `"${text}" is not a valid ${type} value` } : { value };
+}
+
+async function readCellText(tableName: string, rowId: number, column: string) {
+  const result = arrowTableToObjects(
+    await runQuery(
+      `SELECT CAST(${quoteIdentifier(column)} AS VARCHAR) AS value FROM ${quoteIdentifier(tableName)} WHERE rowid = ${rowId}`,
+    ),
+  );
+  if (result.rows.length === 0) {
+    throw new Error(`Row ${rowId} no longer exists in ${tableName}`);
+  }
+  const value = result.rows[0]!.value;
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Writes DuckDB's text rendering of a value back into a cell, e.g. to undo or redo an edit.
+ */
+export async function writeCellText(tableName: string, rowId: number, column: string, text: string | null, type: ColumnType) {
+  const literal = text === null ? "NULL" : `CAST(${toSqlLiteral(text, "VARCHAR")} AS ${type})`;
+  await runQuery(`UPDATE ${quoteIdentifier(tableName)} SET ${quoteIdentifier(column)} = ${literal} WHERE rowid = ${rowId}`);
+}
+
+/**
+ * Updates one cell of a registered table and returns the edit for the undo log.
+ */
+export async function editCell(tableName: string, rowId: number, column: string, value: unknown, type: ColumnType) {
+  const previousText = await readCellText(tableName, rowId, column);
+  await runQuery(
+    `UPDATE ${quoteIdentifier(tableName)} SET ${quoteIdentifier(column)} = ${toSqlLiteral(value, type)} WHERE rowid = ${rowId}`,
+  );
+  const nextText = await readCellText(tableName, rowId, column);
+  return { rowId, column, previousText, nextText, value } satisfies CellEdit;
+}
+
+/**
+ * The last applied edit per cell, skipping cells whose edits cancel out.
+ */
+export function netEdits(log: EditLog) {
+  const first = new Map<string, CellEdit>();
+  const last = new Map<string, CellEdit>();
+  log.edits.slice(0, log.applied).forEach(edit => {
+    const key = cellKey(edit.rowId, edit.column);
+    if (!first.has(key)) {
+      first.set(key, edit);
+    }
+    last.set(key, edit);
+  });
+  const result = new Map<string, CellEdit>();
+  last.forEach((edit, key) => {
+    if (edit.nextText !== first.get(key)!.previousText) {
+      result.set(key, edit);
+    }
+  });
+  return result;
+}
+
+/**
+ * Throws unless the table still lines up with the sheet it was registered from: one row per sheet
+ * row with row ids 0 to n - 1, and every edited cell still holding its edited value. A query that
+ * deleted, inserted or reordered rows would otherwise put the edits into the wrong rows.
+ */
+export async function assertEditsMatchTable(tableName: string, sheet: ProcessedSheet, log: EditLog) {
+  const result = arrowTableToObjects(
+    await runQuery(
+      `SELECT COUNT(*) AS row_count, MIN(rowid) AS first_row, MAX(rowid) AS last_row FROM ${quoteIdentifier(tableName)}`,
+    ),
+  );
+  const { row_count, first_row, last_row } = result.rows[0] ?? {};
+  const rowCount = sheet.rows.length;
+  const aligned =
+    Number(row_count) === rowCount && (rowCount === 0 || (Number(first_row) === 0 && Number(last_row) === rowCount - 1));
+  if (!aligned) {
+    throw new Error(`Rows of ${tableName} were added, removed or replaced since it was loaded, so its edits cannot be saved`);
+  }
+  for (const edit of netEdits(log).values()) {
+    if ((await readCellText(tableName, edit.rowId, edit.column)) !== edit.nextText) {
+      throw new Error(`${tableName} was changed outside the editor, so its edits cannot be saved`);
+    }
+  }
+}
+
+/**
+ * Copies the sheet matrix with the edits applied. Row ids are positions in the registered
+ * table, which keeps the row order of the processed sheet; check that with `assertEditsMatchTable`.
+ */
+export function applyEditsToMatrix(matrix: unknown[][], sheet: ProcessedSheet, log: EditLog) {
+  const result = matrix.slice();
+  netEdits(log).forEach(edit => {
+    const columnIndex = sheet.columns.indexOf(edit.column);
+    if (columnIndex < 0) {
+      return;
+    }
+    const rowIndex = sheet.dataOrigin.row + edit.rowId;
+    const cellIndex = sheet.dataOrigin.column + columnIndex;
+    const row = (result[rowIndex] ?? []).slice();
+    while (row.length < cellIndex) {
+      row.push(null);
+    }
+    row[cellIndex] = edit.value;
+    result[rowIndex] = row;
+  });
+  return result;
+}
+
+/**
+ * Writes every sheet of the original workbook to a new xlsx, replacing the edited sheets' cells.
+ * Formatting and formulas of the source file are not carried over. Dates in the matrix are local,
+ * both those read from the file and edited ones, and are written by their wall-clock time.
+ */
+export function buildEditedWorkbook(workbook: ParsedWorkbook, editedMatrices: Record<string, unknown[][]>) {
+  const book = utils.book_new();
+  workbook.sheets.forEach(sheet => {
+    const matrix = (editedMatrices[sheet.name] ?? sheet.matrix).map(row =>
+      row.map(value => (value instanceof Date ? toDateCell(value, "local") : value)),
+    );
+    utils.book_append_sheet(book, utils.aoa_to_sheet(matrix), toSheetName(sheet.name));
+  });
+  return write(book, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+/** Edit logs per table name, each tied to the processed sheet it was made against */
+export type SheetEditLogs = Record<string, { sheet: ProcessedSheet; log: EditLog }>;
+
+/**
+ * The log for a table, or an empty one when the table was registered again since
+ * (new upload or import settings), which replaces the edited data.
+ */
+export function editLogFor(logs: SheetEditLogs, tableName: string, sheet: ProcessedSheet) {
+  const entry = logs[tableName];
+  return entry && entry.sheet === sheet ? entry.log : EMPTY_EDIT_LOG;
+}
@@ -0,0 +1,116 @@
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { isRadialChart, MAX_CHART_CATEGORIES, type ChartSource, type ChartSpec } from "./chart-spec";
+import { sourceRelation, type GridSource } from "./grid-query";
+import { quoteIdentifier } from "./schema";
+
+export interface ChartColumn {
+  name: string;
+  type: string;
+}
+
+export interface ChartQueryResult {
+  /** The spec to draw the result with; its value columns are the aggregate aliases */
+  spec: ChartSpec;
+  source: ChartSource;
+}
+
+// Enough rows for every category of a few dozen series; labels past the category limit are dropped anyway
+const MAX_CHART_ROWS = MAX_CHART_CATEGORIES * 50;
+
+/** DuckDB-like type for a column of in-memory rows, judged by the values it holds */
+function inferColumnType(rows: Record<string, unknown>[], column: string) {
+  const value = rows.find(row => row[column] !== null && row[column] !== undefined)?.[column];
+  if (typeof value === "number" || typeof value === "bigint") {
+    return "DOUBLE";
+  }
+  if (value instanceof Date) {
+    return "TIMESTAMP";
+  }
+  return typeof value === "boolean" ? "BOOLEAN" : "VARCHAR";
+}
+
+/**
+ * Column names and DuckDB types of a chart source.
+ */
+export async function describeChartColumns(source: GridSource): Promise<ChartColumn[]> {
+  if (source.kind === "rows") {
+    return source.columns.map(name => ({ name, type: inferColumnType(source.rows, name) }));
+  }
+  const result = arrowTableToObjects(await runQuery(`DESCRIBE SELECT * FROM ${sourceRelation(source)}`));
+  return result.rows.map(row => ({ name: String(row.column_name), type: String(row.column_type) }));
+}
+
+/** Pies draw a single dataset, so a series column would only hide data */
+function withoutUnusedSeries(spec: ChartSpec): ChartSpec {
+  return isRadialChart(spec.kind) && spec.series ? { ...spec, series: null } : spec;
+}
+
+function aggregateExpression(spec: ChartSpec, column: string) {
+  const identifier = quoteIdentifier(column);
+  switch (spec.aggregation) {
+    case "none":
+      return identifier;
+    case "count":
+      return `COUNT(${identifier})`;
+    default:
+      return `${spec.aggregation.toUpperCase()}(TRY_CAST(${identifier} AS DOUBLE))`;
+  }
+}
+
+function valueAlias(spec: ChartSpec, column: string) {
+  return spec.aggregation === "none" ? column : `${spec.aggregation}(${column})`;
+}
+
+function buildOrderBy(spec: ChartSpec, firstValue: string) {
+  const x = quoteIdentifier(spec.x);
+  const value = quoteIdentifier(firstValue);
+  // With series, categories are ranked by their total so each keeps its rows together
+  const rankedValue = spec.series ? `SUM(${value}) OVER (PARTITION BY ${x})` : value;
+  switch (spec.sort ?? "none") {
+    case "x-asc":
+      return ` ORDER BY ${x} ASC NULLS LAST`;
+    case "x-desc":
+      return ` ORDER BY ${x} DESC NULLS LAST`;
+    case "value-asc":
+      return ` ORDER BY ${rankedValue} ASC NULLS LAST, ${x}`;
+    case "value-desc":
+      return ` ORDER BY ${rankedValue} DESC NULLS LAST, ${x}`;
+    case "none":
+      // Grouped rows come back in no particular order, so fall back to the category order
+      return spec.aggregation === "none" ? "" : ` ORDER BY ${x} ASC NULLS LAST`;
+  }
+}
+
+/**
+ * Builds the SQL that groups and aggregates a relation for a chart, so only one row per
+ * category (and series) leaves DuckDB.
+ */
+export function buildChartQuery(chartSpec: ChartSpec, relation: string) {
+  const spec = withoutUnusedSeries(chartSpec);
+  const valueColumns = spec.series ? spec.y.slice(0, 1) : spec.y;
+  const dimensions = [...new Set([spec.x, ...(spec.series ? [spec.series] : [])])].map(quoteIdentifier);
+  const values = valueColumns.map(
+    column => `${aggregateExpression(spec, column)} AS ${quoteIdentifier(valueAlias(spec, column))}`,
+  );
+  const groupBy = spec.aggregation === "none" ? "" : ` GROUP BY ${dimensions.join(", ")}`;
+  const inner = `SELECT ${[...dimensions, ...values].join(", ")} FROM ${relation}${groupBy}`;
+  const orderBy = buildOrderBy(spec, valueAlias(spec, valueColumns[0]!));
+  return `SELECT * FROM (${inner}) AS chart_data${orderBy} LIMIT ${MAX_CHART_ROWS}`;
+}
+
+/**
+ * Runs the chart query for a spec and returns the result with a spec that draws it as is.
+ * Rows that cannot be re-queried are grouped and aggregated in the browser instead, unsorted.
+ */
+export async function runChartQuery(chartSpec: ChartSpec, source: GridSource): Promise<ChartQueryResult> {
+  const spec = withoutUnusedSeries(chartSpec);
+  if (source.kind === "rows") {
+    return { spec, source: { columns: source.columns, rows: source.rows } };
+  }
+  const valueColumns = spec.series ? spec.y.slice(0, 1) : spec.y;
+  const result = arrowTableToObjects(await runQuery(buildChartQuery(spec, sourceRelation(source))));
+  return {
+    spec: { ...spec, y: valueColumns.map(column => valueAlias(spec, column)), aggregation: "none", sort: "none" },
+    source: result,
+  };
+}
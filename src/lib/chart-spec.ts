@@ -0,0 +1,307 @@
+import type { ChartData, ChartOptions } from "chart.js";
+
+export const CHART_KINDS = ["bar", "line", "area", "pie", "doughnut", "scatter"] as const;
+
+export type ChartKind = (typeof CHART_KINDS)[number];
+
+export const CHART_AGGREGATIONS = ["none", "sum", "avg", "count", "min", "max"] as const;
+
+export type ChartAggregation = (typeof CHART_AGGREGATIONS)[number];
+
+export const CHART_LAYOUTS = ["grouped", "stacked"] as const;
+
+export type ChartLayout = (typeof CHART_LAYOUTS)[number];
+
+export const CHART_SCALES = ["linear", "logarithmic"] as const;
+
+export type ChartScale = (typeof CHART_SCALES)[number];
+
+/** `none` keeps the order rows arrive in; `value` sorts by the first value column (summed across series) */
+export const CHART_SORTS = ["none", "x-asc", "x-desc", "value-asc", "value-desc"] as const;
+
+export type ChartSort = (typeof CHART_SORTS)[number];
+
+/**
+ * Describes a chart over a tabular result by column name, so the same spec can be
+ * re-applied whenever the underlying query runs again.
+ */
+export interface ChartSpec {
+  kind: ChartKind;
+  /** Category (or numeric axis for scatter) column */
+  x: string;
+  /** One or more numeric value columns; only the first is used when `series` is set */
+  y: string[];
+  /** Optional column whose distinct values become separate series */
+  series: string | null;
+  aggregation: ChartAggregation;
+  title: string | null;
+  /** Bars and lines with several datasets side by side or on top of each other; grouped by default */
+  layout?: ChartLayout;
+  /** Value axis scale; linear by default */
+  yScale?: ChartScale;
+  sort?: ChartSort;
+}
+
+export interface ChartSource {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/** JSON schema for structured outputs; every property is required and nullable where optional */
+export const CHART_SPEC_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    kind: { type: "string", enum: [...CHART_KINDS], description: "Chart type" },
+    x: { type: "string", description: "Result column for the x axis or pie labels" },
+    y: {
+      type: "array",
+      items: { type: "string" },
+      description: "Numeric result columns to plot",
+    },
+    series: {
+      type: ["string", "null"],
+      description: "Result column that splits the data into separate series, or null",
+    },
+    aggregation: {
+      type: "string",
+      enum: [...CHART_AGGREGATIONS],
+      description: "How to combine rows with the same x (and series) value; none if the query already aggregates",
+    },
+    title: { type: ["string", "null"], description: "Short chart title" },
+  },
+  required: ["kind", "x", "y", "series", "aggregation", "title"],
+  additionalProperties: false,
+} as const;
+
+// Keeps charts legible and rendering fast for large results
+export const MAX_CHART_CATEGORIES = 200;
+
+const CHART_COLORS = [
+  "rgba(59, 130, 246, 0.7)",
+  "rgba(16, 185, 129, 0.7)",
+  "rgba(245, 158, 11, 0.7)",
+  "rgba(239, 68, 68, 0.7)",
+  "rgba(139, 92, 246, 0.7)",
+  "rgba(236, 72, 153, 0.7)",
+  "rgba(20, 184, 166, 0.7)",
+  "rgba(100, 116, 139, 0.7)",
+];
+
+export function chartColor(index: number) {
+  return CHART_COLORS[index % CHART_COLORS.length]!;
+}
+
+/** Pie and doughnut charts draw one value per slice rather than axes */
+export function isRadialChart(kind: ChartKind) {
+  return kind === "pie" || kind === "doughnut";
+}
+
+function isOneOf<T extends string>(options: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (options as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a chart spec coming from the model or a saved dashboard. Returns null for anything malformed.
+ */
+export function parseChartSpec(value: unknown): ChartSpec | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const y = Array.isArray(raw.y) ? raw.y.filter((column): column is string => typeof column === "string" && column !== "") : [];
+  if (!isOneOf(CHART_KINDS, raw.kind) || typeof raw.x !== "string" || raw.x === "" || y.length === 0) {
+    return null;
+  }
+  return {
+    kind: raw.kind,
+    x: raw.x,
+    y,
+    series: typeof raw.series === "string" && raw.series !== "" ? raw.series : null,
+    aggregation: isOneOf(CHART_AGGREGATIONS, raw.aggregation) ? raw.aggregation : "none",
+    title: typeof raw.title === "string" && raw.title !== "" ? raw.title : null,
+    layout: isOneOf(CHART_LAYOUTS, raw.layout) ? raw.layout : undefined,
+    yScale: isOneOf(CHART_SCALES, raw.yScale) ? raw.yScale : undefined,
+    sort: isOneOf(CHART_SORTS, raw.sort) ? raw.sort : undefined,
+  };
+}
+
+/**
+ * Maps the spec's column names onto the result's columns (case-insensitively).
+ * Returns null when the x column or every y column is missing.
+ */
+export function resolveChartSpec(spec: ChartSpec, columns: string[]): ChartSpec | null {
+  const byLowerName = new Map(columns.map(column => [column.toLowerCase(), column]));
+  const find = (name: string) => byLowerName.get(name.toLowerCase()) ?? null;
+  const x = find(spec.x);
+  const y = spec.y.map(find).filter((column): column is string => column !== null);
+  if (!x || y.length === 0) {
+    return null;
+  }
+  return { ...spec, x, y, series: spec.series ? find(spec.series) : null };
+}
+
+function toLabel(value: unknown) {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return value === null || value === undefined ? "(empty)" : String(value);
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "bigint") {
+    return Number(value);
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    return Number(value);
+  }
+  return Number.NaN;
+}
+
+function aggregate(values: number[], count: number, aggregation: ChartAggregation) {
+  const finite = values.filter(Number.isFinite);
+  switch (aggregation) {
+    case "count":
+      return count;
+    case "sum":
+      return finite.reduce((total, value) => total + value, 0);
+    case "avg":
+      return finite.length > 0 ? finite.reduce((total, value) => total + value, 0) / finite.length : null;
+    case "min":
+      return finite.length > 0 ? Math.min(...finite) : null;
+    case "max":
+      return finite.length > 0 ? Math.max(...finite) : null;
+    case "none":
+      return finite[0] ?? null;
+  }
+}
+
+type Groups = Map<string, Map<string, { values: number[]; count: number }>>;
+
+/**
+ * Groups rows by x label and dataset key (the series value, or the y column when there
+ * is no series column), keeping first-seen order for both.
+ */
+function groupRows(spec: ChartSpec, rows: Record<string, unknown>[]) {
+  const labels: string[] = [];
+  const seenLabels = new Set<string>();
+  const groups: Groups = new Map();
+  const valueColumns = spec.series ? spec.y.slice(0, 1) : spec.y;
+
+  for (const row of rows) {
+    const label = toLabel(row[spec.x]);
+    if (!seenLabels.has(label)) {
+      if (labels.length >= MAX_CHART_CATEGORIES) {
+        continue;
+      }
+      seenLabels.add(label);
+      labels.push(label);
+    }
+    valueColumns.forEach(column => {
+      const key = spec.series ? toLabel(row[spec.series]) : column;
+      const byLabel = groups.get(key) ?? new Map();
+      groups.set(key, byLabel);
+      const cell = byLabel.get(label) ?? { values: [], count: 0 };
+      byLabel.set(label, cell);
+      const value = row[column];
+      if (value !== null && value !== undefined) {
+        cell.values.push(toNumber(value));
+        cell.count += 1;
+      }
+    });
+  }
+  return { labels, groups };
+}
+
+/**
+ * Turns a result into Chart.js data for the spec. Returns null when nothing can be plotted.
+ */
+export function buildChartData(spec: ChartSpec, source: ChartSource): ChartData | null {
+  const resolved = resolveChartSpec(spec, source.columns);
+  if (!resolved) {
+    return null;
+  }
+
+  if (resolved.kind === "scatter") {
+    const valueColumns = resolved.series ? resolved.y.slice(0, 1) : resolved.y;
+    const points = new Map<string, { x: number; y: number }[]>();
+    source.rows.slice(0, MAX_CHART_CATEGORIES * 10).forEach(row => {
+      const x = toNumber(row[resolved.x]);
+      valueColumns.forEach(column => {
+        const y = toNumber(row[column]);
+        if (Number.isFinite(x) && Number.isFinite(y)) {
+          const key = resolved.series ? toLabel(row[resolved.series]) : column;
+          const data = points.get(key) ?? [];
+          points.set(key, data);
+          data.push({ x, y });
+        }
+      });
+    });
+    if (points.size === 0) {
+      return null;
+    }
+    return {
+      datasets: [...points.entries()].map(([label, data], index) => ({
+        label,
+        data,
+        backgroundColor: chartColor(index),
+      })),
+    };
+  }
+
+  const { labels, groups } = groupRows(resolved, source.rows);
+  if (labels.length === 0 || groups.size === 0) {
+    return null;
+  }
+  const radial = isRadialChart(resolved.kind);
+  const stacked = resolved.layout === "stacked";
+  const datasets = [...groups.entries()].map(([key, byLabel], index) => ({
+    // Series datasets are named after their value, column datasets after the aggregate
+    label:
+      resolved.series || resolved.aggregation === "none" || resolved.aggregation === "count"
+        ? key
+        : `${resolved.aggregation}(${key})`,
+    data: labels.map(label => {
+      const cell = byLabel.get(label);
+      return cell ? aggregate(cell.values, cell.count, resolved.aggregation) : null;
+    }),
+    backgroundColor: radial ? labels.map((_label, labelIndex) => chartColor(labelIndex)) : chartColor(index),
+    borderColor: radial ? "#ffffff" : chartColor(index).replace("0.7", "1"),
+    borderWidth: 1,
+    // Stacked areas fill down to the dataset below rather than to the axis
+    fill: resolved.kind === "area" ? (stacked && index > 0 ? "-1" : "origin") : false,
+  }));
+
+  return {
+    labels,
+    // A pie shows one value per slice, so only the first dataset is drawn
+    datasets: radial ? datasets.slice(0, 1) : datasets,
+  };
+}
+
+/** Chart.js type for a spec kind; areas are filled line charts */
+export function chartJsType(kind: ChartKind) {
+  return kind === "area" ? "line" : kind;
+}
+
+export function buildChartOptions(spec: ChartSpec): ChartOptions {
+  const title = spec.title ? { display: true, text: spec.title } : { display: false };
+  if (isRadialChart(spec.kind)) {
+    return { responsive: true, plugins: { title, legend: { position: "right" } } };
+  }
+  const stacked = spec.layout === "stacked" && spec.kind !== "scatter";
+  return {
+    responsive: true,
+    plugins: { title, legend: { position: "top" }, tooltip: { mode: spec.kind === "scatter" ? "nearest" : "index" } },
+    scales: {
+      x:
+        spec.kind === "scatter"
+          ? { type: "linear", title: { display: true, text: spec.x } }
+          : { stacked, ticks: { autoSkip: true } },
+      // A log axis has no zero to start from
+      y: spec.yScale === "logarithmic" ? { type: "logarithmic", stacked } : { beginAtZero: true, stacked },
+    },
+  };
+}
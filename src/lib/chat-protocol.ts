@@ -0,0 +1,64 @@
+// Shapes exchanged between the browser and the `/api/chat` proxy route
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ResponseFormat {
+  type: "json_schema";
+  json_schema: {
+    name: string;
+    strict: boolean;
+    schema: {
+      type: "object";
+      properties: Record<string, any>;
+      required: string[];
+      additionalProperties: boolean;
+    };
+  };
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  responseFormat?: ResponseFormat;
+  temperature?: number;
+  maxTokens?: number;
+  /** Answer with a `text/event-stream` of `ChatStreamEvent`s instead of one JSON body */
+  stream?: boolean;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  usage: ChatUsage;
+  /** Tokens left in this session's budget after the request */
+  remainingTokens: number;
+}
+
+export interface ChatErrorResponse {
+  error: string;
+}
+
+export interface ChatStreamDeltaEvent {
+  type: "delta";
+  content: string;
+}
+
+export interface ChatStreamDoneEvent {
+  type: "done";
+  usage: ChatUsage;
+  remainingTokens: number;
+}
+
+export interface ChatStreamErrorEvent {
+  type: "error";
+  error: string;
+}
+
+export type ChatStreamEvent = ChatStreamDeltaEvent | ChatStreamDoneEvent | ChatStreamErrorEvent;
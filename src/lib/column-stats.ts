@@ -0,0 +1,59 @@
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { quoteIdentifier } from "./schema";
+
+export interface TopValue {
+  value: string;
+  count: number;
+}
+
+const NUMERIC_TYPE_PATTERN = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|FLOAT|DOUBLE|DECIMAL)/i;
+const CATEGORICAL_TYPE_PATTERN = /^(VARCHAR|BOOLEAN)/i;
+
+export function isNumericColumnType(type: string) {
+  return NUMERIC_TYPE_PATTERN.test(type);
+}
+
+/** Text and boolean columns, whose most frequent values are worth listing */
+export function isCategoricalColumnType(type: string) {
+  return CATEGORICAL_TYPE_PATTERN.test(type);
+}
+
+/**
+ * Reads a statistic from a DuckDB result as a number; BIGINTs and numeric text are converted.
+ */
+export function toNumber(value: unknown) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Renders a statistic such as a column's min or max as text. Dates become ISO strings, or
+ * only their day with `dateOnly`.
+ */
+export function toText(value: unknown, { dateOnly = false } = {}) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    const text = value.toISOString();
+    return dateOnly ? text.slice(0, 10) : text;
+  }
+  return String(value);
+}
+
+/**
+ * The most frequent non-null values of a column, most frequent first.
+ */
+export async function collectTopValues(tableName: string, columnName: string, limit: number): Promise<TopValue[]> {
+  const column = quoteIdentifier(columnName);
+  const result = arrowTableToObjects(
+    await runQuery(
+      `SELECT CAST(${column} AS VARCHAR) AS value, COUNT(*) AS count FROM ${quoteIdentifier(tableName)} ` +
+        `WHERE ${column} IS NOT NULL GROUP BY 1 ORDER BY 2 DESC, 1 LIMIT ${limit}`,
+    ),
+  );
+  return result.rows.map(row => ({ value: String(row.value), count: toNumber(row.count) ?? 0 }));
+}
@@ -0,0 +1,162 @@
+import { parseDateText, type CellType } from "./schema";
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+const DELIMITER_CANDIDATES = [",", "\t", ";", "|"];
+const DELIMITER_SAMPLE_LINES = 20;
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const LEADING_ZERO_PATTERN = /^[+-]?0\d/;
+
+function tryDecode(bytes: Uint8Array, encoding: string, fatal: boolean) {
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes text bytes, honouring a UTF-8 or UTF-16 byte order mark. Without a BOM the bytes
+ * are read as UTF-8, falling back to Shift_JIS (common for CSVs exported by Japanese Excel).
+ */
+export function decodeText(data: ArrayBuffer): DecodedText {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "utf-8" };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "utf-16le" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes.subarray(2)), encoding: "utf-16be" };
+  }
+
+  const utf8 = tryDecode(bytes, "utf-8", true);
+  if (utf8 !== null) {
+    return { text: utf8, encoding: "utf-8" };
+  }
+  const shiftJis = tryDecode(bytes, "shift_jis", true);
+  if (shiftJis !== null) {
+    return { text: shiftJis, encoding: "shift_jis" };
+  }
+  return { text: new TextDecoder("utf-8").decode(bytes), encoding: "utf-8" };
+}
+
+function countFields(line: string, delimiter: string) {
+  let count = 1;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the same number (greater than one)
+ * of fields most consistently. Falls back to a comma.
+ */
+export function detectDelimiter(text: string, candidates = DELIMITER_CANDIDATES) {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim().length > 0)
+    .slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length === 0) {
+    return ",";
+  }
+
+  let best = { delimiter: ",", consistency: 0, fields: 1 };
+  for (const delimiter of candidates) {
+    const counts = lines.map(line => countFields(line, delimiter));
+    const frequencies = new Map<number, number>();
+    counts.forEach(count => frequencies.set(count, (frequencies.get(count) ?? 0) + 1));
+    const [fields, occurrences] = [...frequencies.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [1, 0];
+    if (fields < 2) {
+      continue;
+    }
+    const consistency = occurrences / lines.length;
+    if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+      best = { delimiter, consistency, fields };
+    }
+  }
+  return best.delimiter;
+}
+
+/**
+ * Splits delimited text into rows of fields following RFC 4180 quoting rules.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Turns a text field into a typed cell. Numbers with leading zeros stay text so IDs keep their format.
+ */
+export function parseTextCell(text: string): { value: unknown; type: CellType } {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    return { value: null, type: null };
+  }
+  if (NUMBER_PATTERN.test(trimmed) && !LEADING_ZERO_PATTERN.test(trimmed)) {
+    return { value: Number(trimmed), type: "n" };
+  }
+  const lower = trimmed.toLowerCase();
+  if (lower === "true" || lower === "false") {
+    return { value: lower === "true", type: "b" };
+  }
+  const date = parseDateText(trimmed);
+  if (date) {
+    return { value: date, type: "d" };
+  }
+  return { value: text, type: "s" };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { createDashboardTile, parseDashboard, serializeDashboard, tileTableVersion, type Dashboard } from "./dashboard";
+
+const dashboard: Dashboard = {
+  name: "Sales",
+  tiles: [
+    createDashboardTile({
+      kind: "chart",
+      title: "Revenue",
+      sql: "SELECT * FROM sales",
+      spec: { kind: "bar", x: "region", y: ["amount"], series: null, aggregation: "sum", title: null },
+    }),
+    createDashboardTile({ kind: "kpi", title: "Orders", sql: "SELECT COUNT(*) AS orders FROM sales", column: "orders" }),
+  ],
+};
+
+describe("parseDashboard", () => {
+  test("reads back a serialized dashboard with fresh tile ids", () => {
+    const parsed = parseDashboard(serializeDashboard(dashboard));
+    expect(parsed.name).toBe("Sales");
+    expect(parsed.tiles.map(({ id, ...tile }) => tile)).toEqual(dashboard.tiles.map(({ id, ...tile }) => tile));
+    expect(parsed.tiles[0]!.id).not.toBe(dashboard.tiles[0]!.id);
+  });
+
+  test("fills in defaults and clamps layouts", () => {
+    const parsed = parseDashboard(
+      JSON.stringify({ tiles: [{ kind: "table", sql: "FROM sales", layout: { w: 40, h: 0 } }] }),
+    );
+    expect(parsed.name).toBe("Dashboard");
+    expect(parsed.tiles[0]).toMatchObject({ kind: "table", title: "Tile 1", layout: { w: 12, h: 1 } });
+  });
+
+  test("rejects files that are not dashboards", () => {
+    expect(() => parseDashboard("{")).toThrow("not valid JSON");
+    expect(() => parseDashboard(`{"name":"x"}`)).toThrow("not a dashboard definition");
+    expect(() => parseDashboard(`{"version":99,"tiles":[]}`)).toThrow("newer than this app supports");
+  });
+
+  test("rejects invalid tiles", () => {
+    expect(() => parseDashboard(`{"tiles":[{"kind":"table","sql":"DROP TABLE sales"}]}`)).toThrow(
+      "Tile 1 must be a single SELECT-like query",
+    );
+    expect(() => parseDashboard(`{"tiles":[{"kind":"chart","sql":"FROM sales","spec":{}}]}`)).toThrow(
+      "Tile 1 has an invalid chart spec",
+    );
+    expect(() => parseDashboard(`{"tiles":[{"kind":"map","sql":"FROM sales"}]}`)).toThrow('unknown kind "map"');
+  });
+});
+
+describe("tileTableVersion", () => {
+  test("sums the versions of the tables a tile reads", () => {
+    const versions = { sales: 2, sales_2024: 5, regions: 1 };
+    expect(tileTableVersion(`SELECT * FROM "Sales" JOIN regions USING (id)`, versions)).toBe(3);
+    expect(tileTableVersion("SELECT * FROM sales_2024", versions)).toBe(5);
+    expect(tileTableVersion("SELECT 1", versions)).toBe(0);
+  });
+});
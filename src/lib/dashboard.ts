@@ -0,0 +1,193 @@
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { parseChartSpec, type ChartSpec } from "./chart-spec";
+import { assertSingleSelectStatement, isWrappableQuery, sourceRelation } from "./grid-query";
+import { createId } from "./utils";
+
+export const DASHBOARD_FILE_VERSION = 1;
+export const DASHBOARD_GRID_COLUMNS = 12;
+/** Height of one grid row in pixels; tile heights are whole rows */
+export const DASHBOARD_ROW_HEIGHT = 80;
+export const MAX_TILE_ROWS = 12;
+
+export interface TileLayout {
+  /** Width in grid columns */
+  w: number;
+  /** Height in grid rows */
+  h: number;
+}
+
+interface TileBase {
+  id: string;
+  title: string;
+  /** A SELECT-like query; tiles wrap it to aggregate, page or read the first row */
+  sql: string;
+  layout: TileLayout;
+}
+
+export interface ChartTile extends TileBase {
+  kind: "chart";
+  spec: ChartSpec;
+}
+
+/** A single number: the given column (or the first) of the query's first row */
+export interface KpiTile extends TileBase {
+  kind: "kpi";
+  column: string | null;
+}
+
+export interface TableTile extends TileBase {
+  kind: "table";
+}
+
+export type DashboardTile = ChartTile | KpiTile | TableTile;
+
+export type DashboardTileKind = DashboardTile["kind"];
+
+/** What a "pin" action hands over; the dashboard assigns the id and a default size */
+export type PinnedTile = Omit<ChartTile, "id" | "layout"> | Omit<KpiTile, "id" | "layout"> | Omit<TableTile, "id" | "layout">;
+
+/** Tiles are laid out in array order, flowing left to right across the grid */
+export interface Dashboard {
+  name: string;
+  tiles: DashboardTile[];
+}
+
+export const EMPTY_DASHBOARD: Dashboard = { name: "Dashboard", tiles: [] };
+
+const DEFAULT_TILE_LAYOUTS: Record<DashboardTileKind, TileLayout> = {
+  chart: { w: 6, h: 4 },
+  kpi: { w: 3, h: 2 },
+  table: { w: 6, h: 4 },
+};
+
+export function clampTileLayout(layout: TileLayout): TileLayout {
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(1, Math.round(value) || 1));
+  return { w: clamp(layout.w, DASHBOARD_GRID_COLUMNS), h: clamp(layout.h, MAX_TILE_ROWS) };
+}
+
+export function createDashboardTile(pinned: PinnedTile): DashboardTile {
+  return { ...pinned, id: createId(), layout: DEFAULT_TILE_LAYOUTS[pinned.kind] } as DashboardTile;
+}
+
+/** A tile title like "sum(amount) by region" */
+export function defaultChartTitle(spec: ChartSpec) {
+  const values = spec.aggregation === "none" ? spec.y : spec.y.map(column => `${spec.aggregation}(${column})`);
+  return `${values.join(", ")} by ${spec.x}`;
+}
+
+/**
+ * The dashboard as a JSON document: tile queries, chart specs and layout, but no data.
+ */
+export function serializeDashboard(dashboard: Dashboard) {
+  return JSON.stringify({ version: DASHBOARD_FILE_VERSION, name: dashboard.name, tiles: dashboard.tiles }, null, 2);
+}
+
+function readLayout(raw: Record<string, unknown>, kind: DashboardTileKind) {
+  const fallback = DEFAULT_TILE_LAYOUTS[kind];
+  return clampTileLayout({
+    w: typeof raw.w === "number" ? raw.w : fallback.w,
+    h: typeof raw.h === "number" ? raw.h : fallback.h,
+  });
+}
+
+function parseTile(value: unknown, index: number): DashboardTile {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Tile ${index + 1} is not an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.sql !== "string" || raw.sql.trim() === "") {
+    throw new Error(`Tile ${index + 1} has no SQL`);
+  }
+  // Tiles wrap their SQL in a subquery, which is no guard on its own; runs re-check it with `checkTileQuery`
+  if (!isWrappableQuery(raw.sql)) {
+    throw new Error(`Tile ${index + 1} must be a single SELECT-like query`);
+  }
+  const rawLayout = (raw.layout ?? {}) as Record<string, unknown>;
+  const base = {
+    // Ids are regenerated so a file can be loaded next to tiles it was exported from
+    id: createId(),
+    title: typeof raw.title === "string" ? raw.title : `Tile ${index + 1}`,
+    sql: raw.sql,
+  };
+  switch (raw.kind) {
+    case "chart": {
+      const spec = parseChartSpec(raw.spec);
+      if (!spec) {
+        throw new Error(`Tile ${index + 1} has an invalid chart spec`);
+      }
+      return { ...base, kind: "chart", spec, layout: readLayout(rawLayout, "chart") };
+    }
+    case "kpi":
+      return {
+        ...base,
+        kind: "kpi",
+        column: typeof raw.column === "string" && raw.column !== "" ? raw.column : null,
+        layout: readLayout(rawLayout, "kpi"),
+      };
+    case "table":
+      return { ...base, kind: "table", layout: readLayout(rawLayout, "table") };
+    default:
+      throw new Error(`Tile ${index + 1} has an unknown kind "${String(raw.kind)}"`);
+  }
+}
+
+/**
+ * Reads a dashboard saved with `serializeDashboard`. Throws with a readable message when the
+ * file is not a dashboard.
+ */
+export function parseDashboard(text: string): Dashboard {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!value || typeof value !== "object" || !Array.isArray((value as Record<string, unknown>).tiles)) {
+    throw new Error("The file is not a dashboard definition");
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.version === "number" && raw.version > DASHBOARD_FILE_VERSION) {
+    throw new Error(`Dashboard version ${raw.version} is newer than this app supports`);
+  }
+  return {
+    name: typeof raw.name === "string" && raw.name.trim() !== "" ? raw.name : EMPTY_DASHBOARD.name,
+    tiles: (raw.tiles as unknown[]).map(parseTile),
+  };
+}
+
+/**
+ * Sums the edit versions of the tables a tile's SQL names. Versions only grow, so the sum changes
+ * whenever one of those tables is edited, and edits to other tables leave it alone.
+ */
+export function tileTableVersion(sql: string, tableVersions: Record<string, number>) {
+  const lower = sql.toLowerCase();
+  return Object.entries(tableVersions).reduce((total, [tableName, version]) => {
+    const name = tableName.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|[^\\w])${name}(?![\\w])`).test(lower) ? total + version : total;
+  }, 0);
+}
+
+/**
+ * Throws unless the tile's SQL is exactly one SELECT-like statement, before it is wrapped and run.
+ * Tile SQL may come from a shared file, so this runs before every query a tile makes.
+ */
+export async function checkTileQuery(tile: DashboardTile) {
+  await assertSingleSelectStatement(tile.sql);
+}
+
+/**
+ * Runs a KPI tile's query and returns the value to show.
+ */
+export async function queryKpiValue(tile: KpiTile) {
+  await checkTileQuery(tile);
+  const result = arrowTableToObjects(
+    await runQuery(`SELECT * FROM ${sourceRelation({ kind: "query", sql: tile.sql })} LIMIT 1`),
+  );
+  const column = tile.column
+    ? result.columns.find(name => name.toLowerCase() === tile.column!.toLowerCase())
+    : result.columns[0];
+  if (!column) {
+    throw new Error(tile.column ? `The query has no column "${tile.column}"` : "The query returns no columns");
+  }
+  return { column, value: result.rows[0]?.[column] ?? null };
+}
@@ -0,0 +1,14 @@
+// DuckDB Wasm files that are self-hosted so the app also starts without access to jsDelivr.
+// build.ts copies them into dist/duckdb and the Bun server serves them from node_modules.
+export const DUCKDB_ASSET_BASE_PATH = "/duckdb/";
+
+export const DUCKDB_ASSET_FILES = {
+  mvpModule: "duckdb-mvp.wasm",
+  mvpWorker: "duckdb-browser-mvp.worker.js",
+  ehModule: "duckdb-eh.wasm",
+  ehWorker: "duckdb-browser-eh.worker.js",
+} as const;
+
+export function isDuckDBAssetFile(fileName: string) {
+  return (Object.values(DUCKDB_ASSET_FILES) as string[]).includes(fileName);
+}
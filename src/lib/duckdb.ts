@@ -1,24 +1,85 @@
 import * as duckdb from "@duckdb/duckdb-wasm";
 import type { AsyncDuckDB, AsyncDuckDBConnection } from "@duckdb/duckdb-wasm";
+import { DataType, type RecordBatch, type Table } from "apache-arrow";
+import { buildArrowBatches, DEFAULT_ARROW_BATCH_SIZE } from "./arrow";
+import { DUCKDB_ASSET_BASE_PATH, DUCKDB_ASSET_FILES } from "./duckdb-assets";
+import { buildCreateTableSql, quoteIdentifier, type ColumnSchema } from "./schema";
+import { createId } from "./utils";
 
 let dbInstancePromise: Promise<AsyncDuckDB> | null = null;
 let connectionPromise: Promise<AsyncDuckDBConnection> | null = null;
 
-async function instantiateDuckDB(): Promise<AsyncDuckDB> {
-  const bundles = duckdb.getJsDelivrBundles();
-  const bundle = await duckdb.selectBundle(bundles);
+// Set BUN_PUBLIC_DUCKDB_CDN_FALLBACK=false to never contact jsDelivr (e.g. on air-gapped networks)
+const CDN_FALLBACK_ENABLED = process.env.BUN_PUBLIC_DUCKDB_CDN_FALLBACK !== "false";
+
+function getLocalBundles(): duckdb.DuckDBBundles {
+  const base = new URL(DUCKDB_ASSET_BASE_PATH, window.location.href).toString();
+  return {
+    mvp: {
+      mainModule: `${base}${DUCKDB_ASSET_FILES.mvpModule}`,
+      mainWorker: `${base}${DUCKDB_ASSET_FILES.mvpWorker}`,
+    },
+    eh: {
+      mainModule: `${base}${DUCKDB_ASSET_FILES.ehModule}`,
+      mainWorker: `${base}${DUCKDB_ASSET_FILES.ehWorker}`,
+    },
+  };
+}
+
+async function instantiateBundle(bundle: duckdb.DuckDBBundle, crossOrigin: boolean): Promise<AsyncDuckDB> {
   if (!bundle.mainWorker) {
     throw new Error("DuckDB worker bundle could not be resolved");
   }
-  const workerUrl = URL.createObjectURL(
-    new Blob([`importScripts("${bundle.mainWorker}");`], { type: "text/javascript" }),
-  );
+  // Browsers refuse cross-origin worker scripts, so CDN workers are loaded through a same-origin blob
+  const workerUrl = crossOrigin
+    ? URL.createObjectURL(new Blob([`importScripts("${bundle.mainWorker}");`], { type: "text/javascript" }))
+    : bundle.mainWorker;
   const worker = new Worker(workerUrl);
-  const logger = new duckdb.ConsoleLogger();
-  const db = new duckdb.AsyncDuckDB(logger, worker);
-  await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
-  URL.revokeObjectURL(workerUrl);
-  return db;
+  try {
+    const logger = new duckdb.ConsoleLogger();
+    const db = new duckdb.AsyncDuckDB(logger, worker);
+    await db.instantiate(bundle.mainModule, bundle.pthreadWorker);
+    return db;
+  } catch (error) {
+    worker.terminate();
+    throw error;
+  } finally {
+    if (crossOrigin) {
+      URL.revokeObjectURL(workerUrl);
+    }
+  }
+}
+
+async function isBundleAvailable(bundle: duckdb.DuckDBBundle) {
+  try {
+    const response = await fetch(bundle.mainModule, { method: "HEAD" });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Starts DuckDB from the self-hosted bundles and only falls back to jsDelivr when they
+ * are missing or fail to load, unless the CDN fallback is disabled.
+ */
+async function instantiateDuckDB(): Promise<AsyncDuckDB> {
+  const localBundle = await duckdb.selectBundle(getLocalBundles());
+  let localError: unknown = new Error(`DuckDB bundles not found at ${DUCKDB_ASSET_BASE_PATH}`);
+  if (await isBundleAvailable(localBundle)) {
+    try {
+      return await instantiateBundle(localBundle, false);
+    } catch (error) {
+      localError = error;
+    }
+  }
+
+  if (!CDN_FALLBACK_ENABLED) {
+    throw localError;
+  }
+  console.warn("Self-hosted DuckDB bundles unavailable, falling back to jsDelivr:", localError);
+  const cdnBundle = await duckdb.selectBundle(duckdb.getJsDelivrBundles());
+  return instantiateBundle(cdnBundle, true);
 }
 
 export function getDuckDB(): Promise<AsyncDuckDB> {
@@ -57,11 +118,142 @@ export async function registerCsvAsTable(tableName: string, csv: string) {
   }
 }
 
+/**
+ * Creates the table from an explicit schema and appends the rows as Arrow record batches.
+ * Avoids building an intermediate CSV or SQL string, which matters for sheets with many rows.
+ */
+export async function registerArrowTable(
+  tableName: string,
+  schema: ColumnSchema[],
+  rows: Record<string, unknown>[],
+  batchSize = DEFAULT_ARROW_BATCH_SIZE,
+) {
+  if (schema.length === 0) {
+    throw new Error(`Cannot register table "${tableName}" without columns`);
+  }
+
+  const connection = await getDuckDBConnection();
+  const target = quoteIdentifier(tableName);
+
+  try {
+    await connection.query(`DROP TABLE IF EXISTS ${target}`);
+    await connection.query(buildCreateTableSql(tableName, schema));
+    for (const batch of buildArrowBatches(schema, rows, batchSize)) {
+      await connection.insertArrowTable(batch, { name: tableName, create: false });
+    }
+  } catch (error) {
+    console.error(`Failed to register Arrow table "${tableName}":`, error);
+    throw error;
+  }
+}
+
+function normaliseArrowValue(value: unknown, type: DataType) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if ((DataType.isDate(type) || DataType.isTimestamp(type)) && (typeof value === "number" || typeof value === "bigint")) {
+    return new Date(Number(value));
+  }
+  if (typeof value === "bigint" && value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Converts an Arrow result (or one of its record batches) into plain row objects. Dates and timestamps become `Date`s
+ * and BIGINTs that fit into a JS number become numbers.
+ */
+export function arrowTableToObjects(table: Table | RecordBatch) {
+  const fields = table.schema.fields;
+  const columns = fields.map(field => field.name);
+  const rows = table.toArray().map(row => {
+    const raw = (typeof row?.toJSON === "function" ? row.toJSON() : row) as Record<string, unknown>;
+    const record: Record<string, unknown> = {};
+    fields.forEach(field => {
+      record[field.name] = normaliseArrowValue(raw[field.name], field.type);
+    });
+    return record;
+  });
+  return { columns, rows };
+}
+
 export async function runQuery(query: string) {
   const connection = await getDuckDBConnection();
   return connection.query(query);
 }
 
+/**
+ * Runs a query on its own connection and yields the rows one Arrow batch at a time, so a large
+ * result is never held in memory at once. The shared connection stays free for other queries.
+ */
+export async function* streamQueryRows(query: string) {
+  const db = await getDuckDB();
+  const connection = await db.connect();
+  try {
+    const reader = await connection.send(query);
+    for await (const batch of reader) {
+      yield arrowTableToObjects(batch).rows;
+    }
+  } finally {
+    await connection.close();
+  }
+}
+
+export function stripTrailingSemicolon(sql: string) {
+  return sql.trim().replace(/;+\s*$/, "");
+}
+
+/**
+ * Plans a statement without running it. DuckDB refuses to prepare more than one statement,
+ * so `SELECT ...; DROP ...` is rejected before any part of it executes.
+ */
+export async function prepareStatement(sql: string) {
+  const connection = await getDuckDBConnection();
+  const statement = await connection.prepare(stripTrailingSemicolon(sql));
+  await statement.close();
+}
+
+/**
+ * Runs a query and writes its full result as a Parquet file using DuckDB's `COPY ... TO`.
+ */
+export async function copyQueryToParquet(sql: string): Promise<Uint8Array> {
+  const db = await getDuckDB();
+  const connection = await getDuckDBConnection();
+  // Unique per call, so exports started in the same millisecond do not share a file
+  const fileName = `export_${createId()}.parquet`;
+
+  try {
+    // The newline keeps a trailing line comment from swallowing the closing parenthesis
+    await connection.query(`COPY (${stripTrailingSemicolon(sql)}\n) TO '${fileName}' (FORMAT PARQUET)`);
+    return await db.copyFileToBuffer(fileName);
+  } finally {
+    await db.dropFile(fileName);
+  }
+}
+
+export async function exportTableToParquet(tableName: string) {
+  return copyQueryToParquet(`SELECT * FROM ${quoteIdentifier(tableName)}`);
+}
+
+/**
+ * Recreates a table from Parquet bytes previously written by `exportTableToParquet`.
+ */
+export async function importParquetTable(tableName: string, data: Uint8Array) {
+  const db = await getDuckDB();
+  const connection = await getDuckDBConnection();
+  const fileName = `import_${createId()}.parquet`;
+
+  try {
+    await db.registerFileBuffer(fileName, data);
+    await connection.query(
+      `CREATE OR REPLACE TABLE ${quoteIdentifier(tableName)} AS SELECT * FROM read_parquet('${fileName}')`,
+    );
+  } finally {
+    await db.dropFile(fileName);
+  }
+}
+
 export async function dropTable(tableName: string) {
   const connection = await getDuckDBConnection();
   await connection.query(`DROP TABLE IF EXISTS "${tableName}"`);
@@ -1,12 +1,13 @@
 import type { WorkBook, WorkSheet } from "xlsx";
 import { read, utils } from "xlsx";
+import type { CellType } from "./schema";
 
 export interface ParsedSheet {
   name: string;
   columns: string[];
   rows: Record<string, unknown>[];
-  csv: string;
   matrix: unknown[][];
+  cellTypes: CellType[][];
 }
 
 export interface ParsedWorkbook {
@@ -14,93 +15,108 @@ export interface ParsedWorkbook {
   sheets: ParsedSheet[];
 }
 
-const FALLBACK_COLUMN_PREFIX = "Column";
+export interface ParseProgress {
+  stage: "reading" | "sheet";
+  sheetName?: string;
+  completedSheets: number;
+  totalSheets: number;
+}
 
-function normaliseHeaderRow(sheet: WorkSheet): string[] {
-  const range = sheet["!ref"] ? utils.decode_range(sheet["!ref"]) : null;
-  const width = range ? range.e.c - range.s.c + 1 : undefined;
-  const headerRows = utils.sheet_to_json<string[]>(sheet, { header: 1, defval: "" });
-  const firstRow = headerRows[0] ?? [];
-  const finalWidth = width ?? firstRow.length;
+const FALLBACK_COLUMN_PREFIX = "Column";
 
-  return Array.from({ length: finalWidth }, (_, index) => {
+function normaliseHeaderRow(firstRow: unknown[], width: number): string[] {
+  return Array.from({ length: width }, (_, index) => {
     const raw = firstRow[index];
     const value = typeof raw === "string" ? raw.trim() : String(raw ?? "").trim();
     return value.length > 0 ? value : `${FALLBACK_COLUMN_PREFIX}_${index + 1}`;
   });
 }
 
-function serialiseValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return "";
-  }
-  if (typeof value === "number" || typeof value === "bigint") {
-    return String(value);
+function readSheetMatrix(sheet: WorkSheet) {
+  const matrix: unknown[][] = [];
+  const cellTypes: CellType[][] = [];
+  if (!sheet["!ref"]) {
+    return { matrix, cellTypes };
   }
-  if (value instanceof Date) {
-    return value.toISOString();
-  }
-  const text = String(value);
-  if (/[",\n]/.test(text)) {
-    return `"${text.replace(/"/g, '""')}"`;
+  const range = utils.decode_range(sheet["!ref"]);
+  for (let r = range.s.r; r <= range.e.r; r += 1) {
+    const values: unknown[] = [];
+    const types: CellType[] = [];
+    for (let c = range.s.c; c <= range.e.c; c += 1) {
+      const cell = sheet[utils.encode_cell({ r, c })];
+      const isEmpty = !cell || cell.t === "z" || cell.t === "e";
+      values.push(isEmpty ? null : cell.v ?? null);
+      types.push(isEmpty ? null : cell.t);
+    }
+    matrix.push(values);
+    cellTypes.push(types);
   }
-  return text;
+  return { matrix, cellTypes };
 }
 
-function buildCsv(columns: string[], rows: Record<string, unknown>[]): string {
-  const header = columns.map(serialiseValue).join(",");
-  const dataRows = rows.map(row => columns.map(column => serialiseValue(row[column])).join(","));
-  return [header, ...dataRows].join("\n");
-}
-
-export async function parseExcel(file: File): Promise<ParsedWorkbook> {
-  const data = await file.arrayBuffer();
-  const workbook = read(data, { type: "array" });
-
-  const sheets: ParsedSheet[] = workbook.SheetNames.map(sheetName => {
-    const worksheet = workbook.Sheets[sheetName];
-    if (!worksheet) {
-      return {
-        name: sheetName,
-        columns: [],
-        rows: [],
-        csv: "",
-        matrix: [],
-      };
-    }
-    const rawRows = utils.sheet_to_json<Record<string, unknown>>(worksheet, {
-      raw: true,
-      defval: null,
-    });
-    const columns = normaliseHeaderRow(worksheet);
-    const matrix = utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: true, defval: null });
-
-    const rows = rawRows.map(row => {
+/**
+ * Builds a sheet from a cell matrix whose first row is the header. Shared by every importer
+ * so all input formats produce the same shape.
+ */
+export function buildParsedSheet(name: string, matrix: unknown[][], cellTypes: CellType[][]): ParsedSheet {
+  const width = matrix.reduce((max, values) => Math.max(max, values.length), 0);
+  const columns = normaliseHeaderRow(matrix[0] ?? [], width);
+  const rows = matrix
+    .slice(1)
+    .filter(values => values.some(value => value !== null))
+    .map(values => {
       const normalised: Record<string, unknown> = {};
       columns.forEach((column, index) => {
-        if (Object.prototype.hasOwnProperty.call(row, column)) {
-          normalised[column] = row[column];
-          return;
-        }
-        const fallbackKey = Object.keys(row)[index];
-        normalised[column] = fallbackKey !== undefined ? row[fallbackKey] : null;
+        normalised[column] = values[index] ?? null;
       });
       return normalised;
     });
 
-    const csv = buildCsv(columns, rows);
+  return {
+    name,
+    columns,
+    rows,
+    matrix,
+    cellTypes,
+  };
+}
 
-    return {
-      name: sheetName,
-      columns,
-      rows,
-      csv,
-      matrix,
-    };
+function parseSheet(name: string, worksheet: WorkSheet | undefined): ParsedSheet {
+  if (!worksheet) {
+    return buildParsedSheet(name, [], []);
+  }
+
+  // A single pass over the cells produces the matrix; header and rows are derived from it
+  const { matrix, cellTypes } = readSheetMatrix(worksheet);
+  return buildParsedSheet(name, matrix, cellTypes);
+}
+
+/**
+ * Parses spreadsheet bytes (xlsx, xls, ods, ...) into sheets.
+ * Runs without DOM access so it can be used from the parse worker.
+ */
+export function parseWorkbookData(
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: ParseProgress) => void,
+): ParsedWorkbook {
+  onProgress?.({ stage: "reading", completedSheets: 0, totalSheets: 0 });
+  const workbook: WorkBook = read(data, { type: "array", cellDates: true });
+  const totalSheets = workbook.SheetNames.length;
+
+  const sheets = workbook.SheetNames.map((sheetName, index) => {
+    const sheet = parseSheet(sheetName, workbook.Sheets[sheetName]);
+    onProgress?.({ stage: "sheet", sheetName, completedSheets: index + 1, totalSheets });
+    return sheet;
   });
 
   return {
-    fileName: file.name,
+    fileName,
     sheets,
   };
 }
+
+export async function parseExcel(file: File): Promise<ParsedWorkbook> {
+  const data = await file.arrayBuffer();
+  return parseWorkbookData(data, file.name);
+}
@@ -0,0 +1,218 @@
+import { utils, write, type CellObject } from "xlsx";
+import { copyQueryToParquet, streamQueryRows } from "./duckdb";
+import { fetchGridColumns, sourceRelation, type GridSource } from "./grid-query";
+import { rowsToCsv, rowsToCsvLines } from "./selection";
+
+export type ExportFormat = "xlsx" | "csv" | "jsonl" | "parquet";
+
+export interface ExportableResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "xlsx", label: "Excel (.xlsx)" },
+  { format: "csv", label: "CSV (.csv)" },
+  { format: "jsonl", label: "JSON Lines (.jsonl)" },
+  { format: "parquet", label: "Parquet (.parquet)" },
+];
+
+export const MIME_TYPES: Record<ExportFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv;charset=utf-8",
+  jsonl: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet",
+};
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+export function toSheetName(name: string, fallback = "Sheet") {
+  const cleaned = name.replace(/[\\/?*[\]:]/g, "_").trim().slice(0, 31);
+  return cleaned.length > 0 ? cleaned : fallback;
+}
+
+function formatTimestamp(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/**
+ * Finds the first known table referenced in the SQL text, used to name downloads.
+ */
+export function detectSourceTable(sql: string, tables: string[]) {
+  const lower = sql.toLowerCase();
+  let best: { name: string; position: number } | null = null;
+  for (const table of tables) {
+    const match = new RegExp(`(?:from|join)\\s+"?${table.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"?(?![\\w])`).exec(lower);
+    if (match && (!best || match.index < best.position)) {
+      best = { name: table, position: match.index };
+    }
+  }
+  return best?.name ?? null;
+}
+
+export function buildExportFileName(source: string | null, extension: string, now = new Date()) {
+  const base = (source ?? "query").replace(/[^a-zA-Z0-9_-]+/g, "_");
+  return `${base}_${formatTimestamp(now)}.${extension}`;
+}
+
+/** Parquet is written by DuckDB, so rows that only live in memory cannot be exported to it */
+export function supportsFormat(format: ExportFormat, source: GridSource) {
+  return format !== "parquet" || source.kind !== "rows";
+}
+
+/**
+ * Which clock a `Date` carries its wall-clock time in. DuckDB DATE and TIMESTAMP values come back
+ * as UTC (midnight UTC for dates); dates read from workbooks or typed into cells are local.
+ */
+export type DateClock = "utc" | "local";
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * A date cell holding the Excel serial number of the date's wall-clock time. SheetJS would convert
+ * `Date`s using the local timezone, which moves UTC dates to the previous day west of Greenwich.
+ */
+export function toDateCell(date: Date, clock: DateClock): CellObject {
+  const wallClock =
+    clock === "utc"
+      ? date.getTime()
+      : Date.UTC(
+          date.getFullYear(),
+          date.getMonth(),
+          date.getDate(),
+          date.getHours(),
+          date.getMinutes(),
+          date.getSeconds(),
+          date.getMilliseconds(),
+        );
+  const hasTime = wallClock % MS_PER_DAY !== 0;
+  return { t: "n", v: (wallClock - EXCEL_EPOCH) / MS_PER_DAY, z: hasTime ? "yyyy-mm-dd hh:mm:ss" : "yyyy-mm-dd" };
+}
+
+function toCellValue(value: unknown, dateClock: DateClock) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) {
+    return toDateCell(value, dateClock);
+  }
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value, jsonReplacer);
+}
+
+function jsonReplacer(_key: string, value: unknown) {
+  return typeof value === "bigint" ? (Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()) : value;
+}
+
+/**
+ * Builds a worksheet that keeps numbers, booleans and dates as typed cells instead of text.
+ * Query results hold UTC dates; pass `"local"` for rows of a processed sheet.
+ */
+export function resultToWorksheet(result: ExportableResult, dateClock: DateClock = "utc") {
+  const data = [
+    result.columns,
+    ...result.rows.map(row => result.columns.map(column => toCellValue(row[column], dateClock))),
+  ];
+  return utils.aoa_to_sheet(data);
+}
+
+export function resultToXlsx(result: ExportableResult, sheetName: string) {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, resultToWorksheet(result), toSheetName(sheetName, "Result"));
+  return write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+export function resultToJsonLines(result: ExportableResult) {
+  return result.rows
+    .map(row => {
+      const record: Record<string, unknown> = {};
+      result.columns.forEach(column => {
+        record[column] = row[column] ?? null;
+      });
+      return JSON.stringify(record, jsonReplacer);
+    })
+    .join("\n");
+}
+
+export function downloadFile(data: BlobPart, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Excel's row limit, including the header row
+const MAX_XLSX_ROWS = 1_048_576;
+
+/** Rows of a grid source in batches: in-memory rows at once, queries streamed from DuckDB */
+async function* readSourceRows(source: GridSource) {
+  if (source.kind === "rows") {
+    yield source.rows;
+    return;
+  }
+  yield* streamQueryRows(`SELECT * FROM ${sourceRelation(source)}`);
+}
+
+/**
+ * Exports the full query result. Query and table sources are read from DuckDB batch by batch
+ * (Parquet through `COPY ... TO`), so only the file being written is held in memory.
+ */
+export async function exportQueryResult(format: ExportFormat, source: GridSource, sql: string, availableTables: string[]) {
+  const tableName = detectSourceTable(sql, availableTables);
+  const fileName = buildExportFileName(tableName, format);
+  const columns = await fetchGridColumns(source);
+
+  switch (format) {
+    case "xlsx": {
+      const rows: Record<string, unknown>[] = [];
+      for await (const batch of readSourceRows(source)) {
+        if (rows.length + batch.length >= MAX_XLSX_ROWS) {
+          throw new Error("The result has more rows than an Excel sheet can hold. Export it as CSV or Parquet instead.");
+        }
+        rows.push(...batch);
+      }
+      downloadFile(resultToXlsx({ columns, rows }, tableName ?? "Result"), fileName, MIME_TYPES.xlsx);
+      break;
+    }
+    case "csv": {
+      // A BOM lets Excel detect UTF-8 when the CSV is opened directly
+      const parts: string[] = [`\uFEFF${rowsToCsv(columns, [])}`];
+      for await (const batch of readSourceRows(source)) {
+        if (batch.length > 0) {
+          parts.push(`\n${rowsToCsvLines(columns, batch)}`);
+        }
+      }
+      downloadFile(new Blob(parts), fileName, MIME_TYPES.csv);
+      break;
+    }
+    case "jsonl": {
+      const parts: string[] = [];
+      for await (const batch of readSourceRows(source)) {
+        if (batch.length > 0) {
+          parts.push(`${parts.length > 0 ? "\n" : ""}${resultToJsonLines({ columns, rows: batch })}`);
+        }
+      }
+      downloadFile(new Blob(parts), fileName, MIME_TYPES.jsonl);
+      break;
+    }
+    case "parquet": {
+      if (source.kind === "rows") {
+        throw new Error("Parquet export needs a table or query result.");
+      }
+      const data = await copyQueryToParquet(`SELECT * FROM ${sourceRelation(source)}`);
+      downloadFile(new Uint8Array(data), fileName, MIME_TYPES.parquet);
+      break;
+    }
+  }
+  return fileName;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { buildFilterCondition, buildWhereClause, isWrappableQuery, sourceRelation } from "./grid-query";
+
+describe("buildFilterCondition", () => {
+  test("ignores blank filters", () => {
+    expect(buildFilterCondition("amount", "   ")).toBeNull();
+  });
+
+  test("compares numbers numerically", () => {
+    expect(buildFilterCondition("amount", ">= 100")).toBe(`TRY_CAST("amount" AS DOUBLE) >= 100`);
+    expect(buildFilterCondition("amount", "<>0")).toBe(`TRY_CAST("amount" AS DOUBLE) != 0`);
+  });
+
+  test("compares other values as text", () => {
+    expect(buildFilterCondition("day", "<2024-01-01")).toBe(`CAST("day" AS VARCHAR) < '2024-01-01'`);
+    expect(buildFilterCondition("name", "=O'Brien")).toBe(`CAST("name" AS VARCHAR) = 'O''Brien'`);
+  });
+
+  test("matches anything else as escaped contains", () => {
+    expect(buildFilterCondition("note", "50%_off")).toBe(`CAST("note" AS VARCHAR) ILIKE '%50\\%\\_off%' ESCAPE '\\'`);
+    expect(buildFilterCondition("op", ">")).toBe(`CAST("op" AS VARCHAR) ILIKE '%>%' ESCAPE '\\'`);
+  });
+
+  test("joins conditions of all filtered columns", () => {
+    expect(buildWhereClause({ a: ">1", b: "" })).toBe(` WHERE TRY_CAST("a" AS DOUBLE) > 1`);
+    expect(buildWhereClause({})).toBe("");
+  });
+});
+
+describe("isWrappableQuery", () => {
+  test("accepts statements that start like a query", () => {
+    expect(isWrappableQuery("select 1")).toBe(true);
+    expect(isWrappableQuery("  WITH d AS (SELECT 1) SELECT * FROM d")).toBe(true);
+    expect(isWrappableQuery("-- totals\nFROM sales")).toBe(true);
+    expect(isWrappableQuery("DESCRIBE sales")).toBe(true);
+  });
+
+  test("rejects other statements", () => {
+    expect(isWrappableQuery("DELETE FROM sales")).toBe(false);
+    expect(isWrappableQuery("CREATE TABLE t AS SELECT 1")).toBe(false);
+    expect(isWrappableQuery("selection")).toBe(false);
+  });
+});
+
+describe("sourceRelation", () => {
+  test("wraps queries so a trailing comment or semicolon cannot break the subquery", () => {
+    expect(sourceRelation({ kind: "query", sql: "SELECT 1 -- one" })).toBe("(SELECT 1 -- one\n) AS grid_source");
+    expect(sourceRelation({ kind: "query", sql: "SELECT 1;" })).toBe("(SELECT 1\n) AS grid_source");
+    expect(sourceRelation({ kind: "table", tableName: 'a"b' })).toBe('"a""b"');
+  });
+});
@@ -0,0 +1,166 @@
+import { arrowTableToObjects, prepareStatement, runQuery, stripTrailingSemicolon } from "./duckdb";
+import { quoteIdentifier } from "./schema";
+
+export type SortDirection = "asc" | "desc";
+
+export interface GridSort {
+  column: string;
+  direction: SortDirection;
+}
+
+/** Filter text per column, e.g. `{ amount: ">100", region: "north" }` */
+export type GridFilters = Record<string, string>;
+
+/**
+ * Where grid rows come from. Tables and queries are paged through DuckDB; `rows` shows
+ * an in-memory result that cannot be re-queried (e.g. the output of a DDL statement).
+ */
+export type GridSource =
+  | { kind: "table"; tableName: string }
+  | { kind: "query"; sql: string }
+  | { kind: "rows"; columns: string[]; rows: Record<string, unknown>[] };
+
+export interface GridPageRequest {
+  sort: GridSort | null;
+  filters: GridFilters;
+  offset: number;
+  limit: number;
+}
+
+/** Rows from table sources carry their DuckDB `rowid` under this key, e.g. for editing */
+export const GRID_ROW_ID_KEY = "__rowid";
+
+const WRAPPABLE_QUERY_PATTERN = /^\s*(\(|select|with|from|values|table|describe|summarize|pivot|unpivot)\b/i;
+const COMPARISON_PATTERN = /^(>=|<=|!=|<>|>|<|=)\s*(.*)$/;
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Whether a statement starts like a query. A cheap first check only: `WITH ... DELETE` passes it,
+ * so `canWrapQuery` decides by preparing the statement as a subquery.
+ */
+export function isWrappableQuery(sql: string) {
+  return WRAPPABLE_QUERY_PATTERN.test(sql.replace(/^(\s*--[^\n]*\n)+/, ""));
+}
+
+async function prepareWrapped(sql: string) {
+  await prepareStatement(`SELECT * FROM ${sourceRelation({ kind: "query", sql })} LIMIT 0`);
+}
+
+/**
+ * Whether a statement can be used as a subquery, so sorting, filtering and paging can be
+ * pushed down to DuckDB. DuckDB plans the wrapped statement without running it.
+ */
+export async function canWrapQuery(sql: string) {
+  if (!isWrappableQuery(sql)) {
+    return false;
+  }
+  try {
+    await prepareWrapped(sql);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Throws unless `sql` is exactly one SELECT-like statement. The statement is prepared, not run,
+ * so SQL from the model or a loaded file can be checked before anything executes.
+ */
+export async function assertSingleSelectStatement(sql: string) {
+  if (!isWrappableQuery(sql)) {
+    throw new Error("Only a single SELECT-like statement is allowed");
+  }
+  // Preparing the statement itself first reports mistakes such as unknown columns as DuckDB words them
+  await prepareStatement(sql);
+  try {
+    await prepareWrapped(sql);
+  } catch {
+    throw new Error("Only a single SELECT-like statement is allowed");
+  }
+}
+
+function quoteText(text: string) {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * The table or subquery a DuckDB-backed source reads from, for use after `FROM`.
+ */
+export function sourceRelation(source: Exclude<GridSource, { kind: "rows" }>) {
+  if (source.kind === "table") {
+    return quoteIdentifier(source.tableName);
+  }
+  // The newline keeps a trailing line comment from swallowing the closing parenthesis
+  return `(${stripTrailingSemicolon(source.sql)}\n) AS grid_source`;
+}
+
+/**
+ * Turns one column's filter text into a SQL condition. `>10`, `<=2024-01-01`, `=North` and
+ * `!=0` compare (numerically when the value is a number); anything else is a case-insensitive
+ * "contains" match.
+ */
+export function buildFilterCondition(column: string, text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const identifier = quoteIdentifier(column);
+  const comparison = COMPARISON_PATTERN.exec(trimmed);
+  if (comparison && comparison[2]) {
+    const operator = comparison[1] === "<>" ? "!=" : comparison[1]!;
+    const value = comparison[2].trim();
+    return NUMBER_PATTERN.test(value)
+      ? `TRY_CAST(${identifier} AS DOUBLE) ${operator} ${Number(value)}`
+      : `CAST(${identifier} AS VARCHAR) ${operator} ${quoteText(value)}`;
+  }
+  const pattern = trimmed.replace(/[\\%_]/g, match => `\\${match}`);
+  return `CAST(${identifier} AS VARCHAR) ILIKE ${quoteText(`%${pattern}%`)} ESCAPE '\\'`;
+}
+
+export function buildWhereClause(filters: GridFilters) {
+  const conditions = Object.entries(filters)
+    .map(([column, text]) => buildFilterCondition(column, text))
+    .filter((condition): condition is string => condition !== null);
+  return conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+}
+
+function buildOrderByClause(source: Exclude<GridSource, { kind: "rows" }>, sort: GridSort | null) {
+  // Tables fall back to insertion order so pages stay stable while scrolling
+  const tieBreaker = source.kind === "table" ? "rowid" : null;
+  const terms = [
+    sort ? `${quoteIdentifier(sort.column)} ${sort.direction === "asc" ? "ASC" : "DESC"} NULLS LAST` : null,
+    tieBreaker,
+  ].filter((term): term is string => term !== null);
+  return terms.length > 0 ? ` ORDER BY ${terms.join(", ")}` : "";
+}
+
+export async function fetchGridColumns(source: GridSource) {
+  if (source.kind === "rows") {
+    return source.columns;
+  }
+  return arrowTableToObjects(await runQuery(`SELECT * FROM ${sourceRelation(source)} LIMIT 0`)).columns;
+}
+
+export async function countGridRows(source: GridSource, filters: GridFilters) {
+  if (source.kind === "rows") {
+    return source.rows.length;
+  }
+  const result = arrowTableToObjects(
+    await runQuery(`SELECT COUNT(*) AS row_count FROM ${sourceRelation(source)}${buildWhereClause(filters)}`),
+  );
+  return Number(result.rows[0]?.row_count ?? 0);
+}
+
+/**
+ * Loads one page of rows with sorting and filtering done by DuckDB.
+ */
+export async function fetchGridRows(source: GridSource, { sort, filters, offset, limit }: GridPageRequest) {
+  if (source.kind === "rows") {
+    return source.rows.slice(offset, offset + limit);
+  }
+  const selection = source.kind === "table" ? `rowid AS ${quoteIdentifier(GRID_ROW_ID_KEY)}, *` : "*";
+  const sql =
+    `SELECT ${selection} FROM ${sourceRelation(source)}${buildWhereClause(filters)}${buildOrderByClause(source, sort)} ` +
+    `LIMIT ${Math.max(0, Math.floor(limit))} OFFSET ${Math.max(0, Math.floor(offset))}`;
+  return arrowTableToObjects(await runQuery(sql)).rows;
+}
@@ -0,0 +1,68 @@
+const DB_NAME = "excel-wizard";
+const DB_VERSION = 2;
+
+export const QUERY_HISTORY_STORE = "queryHistory";
+export const WORKBOOK_STORE = "workbooks";
+export const TABLE_SNAPSHOT_STORE = "tableSnapshots";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(QUERY_HISTORY_STORE, { keyPath: "id" });
+    history.createIndex("executedAt", "executedAt");
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(WORKBOOK_STORE, { keyPath: "id" });
+    // Keyed by table name, values are Parquet bytes
+    db.createObjectStore(TABLE_SNAPSHOT_STORE);
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Failed to open IndexedDB"));
+    }).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+/**
+ * Runs `work` inside a transaction and resolves with its result once the transaction commits.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+  // Handled here too, so a failing `work` does not leave the transaction's rejection unhandled
+  done.catch(() => undefined);
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,213 @@
+import { decodeText, detectDelimiter, parseDelimited, parseTextCell } from "./csv";
+import { buildParsedSheet, parseWorkbookData, type ParsedWorkbook, type ParseProgress } from "./excel";
+import type { CellType } from "./schema";
+
+export interface WorkbookImporter {
+  id: string;
+  label: string;
+  /** Lower-case file extensions including the dot, e.g. ".csv" */
+  extensions: string[];
+  mimeTypes: string[];
+  parse: (data: ArrayBuffer, fileName: string, onProgress?: (progress: ParseProgress) => void) => ParsedWorkbook;
+}
+
+const importers: WorkbookImporter[] = [];
+
+export function registerImporter(importer: WorkbookImporter) {
+  const existing = importers.findIndex(candidate => candidate.id === importer.id);
+  if (existing >= 0) {
+    importers[existing] = importer;
+  } else {
+    importers.push(importer);
+  }
+}
+
+function fileExtension(fileName: string) {
+  const match = /\.[^./\\]+$/.exec(fileName.toLowerCase());
+  return match ? match[0] : "";
+}
+
+/**
+ * Resolves the importer for a file. The extension wins over the MIME type because browsers
+ * report inconsistent types for CSV files (e.g. "application/vnd.ms-excel" on Windows).
+ */
+export function findImporter(fileName: string, mimeType = ""): WorkbookImporter | null {
+  const extension = fileExtension(fileName);
+  const byExtension = importers.find(importer => importer.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension;
+  }
+  const type = mimeType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return type ? importers.find(importer => importer.mimeTypes.includes(type)) ?? null : null;
+}
+
+export function getAcceptedFileTypes() {
+  return importers.flatMap(importer => [...importer.extensions, ...importer.mimeTypes]).join(",");
+}
+
+export function getSupportedExtensions() {
+  return importers.flatMap(importer => importer.extensions);
+}
+
+export function importWorkbook(
+  data: ArrayBuffer,
+  fileName: string,
+  mimeType = "",
+  onProgress?: (progress: ParseProgress) => void,
+): ParsedWorkbook {
+  const importer = findImporter(fileName, mimeType);
+  if (!importer) {
+    throw new Error(`Unsupported file type: "${fileName}"`);
+  }
+  return importer.parse(data, fileName, onProgress);
+}
+
+function sheetNameFromFile(fileName: string) {
+  return fileName.replace(/\.[^/.]+$/, "") || "data";
+}
+
+function parseDelimitedFile(
+  data: ArrayBuffer,
+  fileName: string,
+  delimiter: string | null,
+  onProgress?: (progress: ParseProgress) => void,
+): ParsedWorkbook {
+  onProgress?.({ stage: "reading", completedSheets: 0, totalSheets: 0 });
+  const { text } = decodeText(data);
+  const fields = parseDelimited(text, delimiter ?? detectDelimiter(text));
+
+  const matrix: unknown[][] = [];
+  const cellTypes: CellType[][] = [];
+  fields.forEach((values, rowIndex) => {
+    // The header row stays text so numeric headers do not turn into numbers
+    const cells = values.map(value => (rowIndex === 0 ? { value, type: "s" as const } : parseTextCell(value)));
+    matrix.push(cells.map(cell => cell.value));
+    cellTypes.push(cells.map(cell => cell.type));
+  });
+
+  const sheetName = sheetNameFromFile(fileName);
+  const sheet = buildParsedSheet(sheetName, matrix, cellTypes);
+  onProgress?.({ stage: "sheet", sheetName, completedSheets: 1, totalSheets: 1 });
+  return { fileName, sheets: [sheet] };
+}
+
+function jsonValueToCell(value: unknown): { value: unknown; type: CellType } {
+  if (value === null || value === undefined) {
+    return { value: null, type: null };
+  }
+  if (typeof value === "number") {
+    return { value, type: "n" };
+  }
+  if (typeof value === "boolean") {
+    return { value, type: "b" };
+  }
+  if (typeof value === "string") {
+    return parseTextCell(value);
+  }
+  return { value: JSON.stringify(value), type: "s" };
+}
+
+function jsonRowsToMatrix(rows: unknown[]) {
+  const matrix: unknown[][] = [];
+  const cellTypes: CellType[][] = [];
+
+  if (rows.every(row => Array.isArray(row))) {
+    (rows as unknown[][]).forEach((row, rowIndex) => {
+      const cells = row.map(value => (rowIndex === 0 ? { value: String(value ?? ""), type: "s" as const } : jsonValueToCell(value)));
+      matrix.push(cells.map(cell => cell.value));
+      cellTypes.push(cells.map(cell => cell.type));
+    });
+    return { matrix, cellTypes };
+  }
+
+  // Objects may have different keys, so the header is the union of keys in first-seen order
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    if (row && typeof row === "object" && !Array.isArray(row)) {
+      Object.keys(row).forEach(key => {
+        if (!seen.has(key)) {
+          seen.add(key);
+          columns.push(key);
+        }
+      });
+    }
+  });
+
+  matrix.push(columns);
+  cellTypes.push(columns.map(() => "s" as const));
+  rows.forEach(row => {
+    const record = row && typeof row === "object" && !Array.isArray(row) ? (row as Record<string, unknown>) : { value: row };
+    const cells = columns.map(column => jsonValueToCell(record[column]));
+    matrix.push(cells.map(cell => cell.value));
+    cellTypes.push(cells.map(cell => cell.type));
+  });
+  return { matrix, cellTypes };
+}
+
+/**
+ * Accepts a top-level array of objects or arrays (one sheet), or an object whose
+ * array-valued properties each become a sheet.
+ */
+function parseJsonFile(
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: ParseProgress) => void,
+): ParsedWorkbook {
+  onProgress?.({ stage: "reading", completedSheets: 0, totalSheets: 0 });
+  const parsed: unknown = JSON.parse(decodeText(data).text);
+
+  const sources: [string, unknown[]][] = Array.isArray(parsed)
+    ? [[sheetNameFromFile(fileName), parsed]]
+    : parsed && typeof parsed === "object"
+      ? Object.entries(parsed).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+      : [];
+  if (sources.length === 0) {
+    throw new Error("JSON files must contain an array of rows or an object of arrays");
+  }
+
+  const sheets = sources.map(([sheetName, rows], index) => {
+    const { matrix, cellTypes } = jsonRowsToMatrix(rows);
+    const sheet = buildParsedSheet(sheetName, matrix, cellTypes);
+    onProgress?.({ stage: "sheet", sheetName, completedSheets: index + 1, totalSheets: sources.length });
+    return sheet;
+  });
+  return { fileName, sheets };
+}
+
+registerImporter({
+  id: "spreadsheet",
+  label: "Excel / OpenDocument",
+  extensions: [".xlsx", ".xlsm", ".xls", ".ods"],
+  mimeTypes: [
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.ms-excel.sheet.macroenabled.12",
+    "application/vnd.ms-excel",
+    "application/vnd.oasis.opendocument.spreadsheet",
+  ],
+  parse: (data, fileName, onProgress) => parseWorkbookData(data, fileName, onProgress),
+});
+
+registerImporter({
+  id: "csv",
+  label: "CSV",
+  extensions: [".csv"],
+  mimeTypes: ["text/csv"],
+  parse: (data, fileName, onProgress) => parseDelimitedFile(data, fileName, null, onProgress),
+});
+
+registerImporter({
+  id: "tsv",
+  label: "TSV",
+  extensions: [".tsv", ".tab"],
+  mimeTypes: ["text/tab-separated-values"],
+  parse: (data, fileName, onProgress) => parseDelimitedFile(data, fileName, "\t", onProgress),
+});
+
+registerImporter({
+  id: "json",
+  label: "JSON",
+  extensions: [".json"],
+  mimeTypes: ["application/json"],
+  parse: parseJsonFile,
+});
@@ -0,0 +1,403 @@
+import { CHART_SPEC_JSON_SCHEMA, parseChartSpec, type ChartSpec } from "./chart-spec";
+import type {
+  ChatErrorResponse,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ResponseFormat,
+} from "./chat-protocol";
+import type { PromptTableSchema } from "./privacy";
+import { readServerSentEvents } from "./sse";
+
+const CHAT_ENDPOINT = "/api/chat";
+
+export interface ChatStreamOptions {
+  signal?: AbortSignal;
+  /** Called with each new piece of text and the full text received so far */
+  onDelta?: (delta: string, content: string) => void;
+}
+
+function buildChatRequest(messages: ChatMessage[], systemPrompt?: string, responseFormat?: ResponseFormat): ChatRequest {
+  return {
+    messages: systemPrompt ? [{ role: "system", content: systemPrompt }, ...messages] : messages,
+    temperature: 0.7,
+    maxTokens: 1000,
+    responseFormat,
+  };
+}
+
+/**
+ * Sends a chat completion through the server's `/api/chat` proxy, which holds the
+ * LLM provider credentials and enforces the per-session rate limit and token budget.
+ */
+export async function requestChatCompletion(
+  messages: ChatMessage[],
+  systemPrompt?: string,
+  responseFormat?: ResponseFormat,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetch(CHAT_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify(buildChatRequest(messages, systemPrompt, responseFormat)),
+    signal,
+  });
+
+  const data = (await response.json().catch(() => null)) as ChatResponse | ChatErrorResponse | null;
+  if (!response.ok || !data || "error" in data) {
+    const message = data && "error" in data ? data.error : `Chat request failed with status ${response.status}`;
+    console.error("Chat proxy error:", message);
+    throw new Error(message);
+  }
+
+  return data.content;
+}
+
+/**
+ * Streams a chat completion from `/api/chat` as server-sent events and resolves with the full text.
+ * Aborting `signal` stops the request on both the client and the server.
+ */
+export async function streamChatCompletion(
+  messages: ChatMessage[],
+  systemPrompt?: string,
+  responseFormat?: ResponseFormat,
+  { signal, onDelta }: ChatStreamOptions = {},
+): Promise<string> {
+  const response = await fetch(CHAT_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify({ ...buildChatRequest(messages, systemPrompt, responseFormat), stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = (await response.json().catch(() => null)) as ChatErrorResponse | null;
+    const message = data?.error ?? `Chat request failed with status ${response.status}`;
+    console.error("Chat proxy error:", message);
+    throw new Error(message);
+  }
+
+  let content = "";
+  for await (const data of readServerSentEvents(response.body)) {
+    const event = JSON.parse(data) as ChatStreamEvent;
+    if (event.type === "delta") {
+      content += event.content;
+      onDelta?.(event.content, content);
+    } else if (event.type === "error") {
+      throw new Error(event.error);
+    }
+  }
+  return content;
+}
+
+/**
+ * Reads a string property from JSON that may still be incomplete, so structured answers
+ * can be shown while they stream. Returns null until the property's value has started.
+ */
+export function readPartialJsonString(json: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) {
+    return null;
+  }
+  let result = "";
+  for (let index = match.index + match[0].length; index < json.length; index += 1) {
+    const char = json[index];
+    if (char === '"') {
+      return result;
+    }
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+    const next = json[index + 1];
+    if (next === undefined) {
+      break;
+    }
+    if (next === "u") {
+      const hex = json.slice(index + 2, index + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      result += String.fromCharCode(Number.parseInt(hex, 16));
+      index += 5;
+    } else {
+      result += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[next] ?? next;
+      index += 1;
+    }
+  }
+  return result;
+}
+
+export interface QuerySuggestion {
+  query: string;
+  explanation: string;
+  /** Proposed visualisation of the query's result, when one helps */
+  chart?: ChartSpec | null;
+}
+
+export type QueryExecution = { status: "success"; rowCount: number } | { status: "error"; error: string };
+
+/** A previous chat message, with the outcome of running its suggested query if it was executed */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+  query?: string;
+  execution?: QueryExecution;
+  /** Plain-language answer written from the query's result */
+  summary?: string;
+}
+
+export interface QuerySuggestionOptions {
+  signal?: AbortSignal;
+  /** Receives the explanation and query as far as they have streamed */
+  onPartial?: (partial: QuerySuggestion) => void;
+  /** Earlier turns of the conversation, oldest first */
+  history?: ConversationTurn[];
+  /** Column types and statistics from `formatSchemaDigest`; replaces the sample rows when given */
+  schemaDigest?: string;
+}
+
+// Keeps the prompt bounded in long conversations
+const MAX_HISTORY_TURNS = 12;
+
+function describeExecution(execution?: QueryExecution) {
+  if (!execution) {
+    return "Not executed.";
+  }
+  return execution.status === "success"
+    ? `Executed successfully, returned ${execution.rowCount} row(s).`
+    : `Execution failed with error: ${execution.error}`;
+}
+
+/**
+ * Turns the chat thread into model messages. Assistant turns carry their suggested query and
+ * whether it ran, so follow-ups can refine or fix an earlier query instead of starting over.
+ */
+export function buildConversationHistory(turns: ConversationTurn[], maxTurns = MAX_HISTORY_TURNS): ChatMessage[] {
+  return turns
+    .filter(turn => turn.content.trim() || turn.query)
+    .slice(-maxTurns)
+    .map(turn => {
+      if (turn.role === "user" || !turn.query) {
+        return { role: turn.role, content: turn.content };
+      }
+      const answer = turn.summary ? `\nAnswer from the result: ${turn.summary}` : "";
+      return {
+        role: "assistant",
+        content: `${turn.content}\n\nSuggested query:\n\`\`\`sql\n${turn.query}\n\`\`\`\n${describeExecution(turn.execution)}${answer}`,
+      };
+    });
+}
+
+export interface QuerySuggestionPrompt {
+  systemPrompt: string;
+  messages: ChatMessage[];
+  responseFormat: ResponseFormat;
+}
+
+/**
+ * Builds the exact prompt sent for a query suggestion. Sample rows are sent as given, so callers
+ * apply the column privacy settings to `tableSchemas` first.
+ */
+export function buildQuerySuggestionPrompt(
+  userQuestion: string,
+  availableTables: string[],
+  tableSchemas?: Record<string, PromptTableSchema>,
+  { history = [], schemaDigest }: Pick<QuerySuggestionOptions, "history" | "schemaDigest"> = {},
+): QuerySuggestionPrompt {
+  const schemaInfo = schemaDigest
+    ? `Tables, with column types, null share, approximate distinct counts, value ranges and frequent values:\n\n${schemaDigest}`
+    : tableSchemas
+      ? Object.entries(tableSchemas)
+          .map(
+            ([tableName, schema]) =>
+              `Table: ${tableName}\nColumns: ${schema.columns.join(", ")}\nSample data: ${JSON.stringify(schema.sampleRows.slice(0, 2))}`,
+          )
+          .join("\n\n")
+      : `Available tables: ${availableTables.join(", ")}`;
+
+  const systemPrompt = `You are a SQL query assistant for DuckDB. You help users write SQL queries based on their Excel data.
+
+${schemaInfo}
+
+Your task:
+1. Understand the user's question
+2. Generate a valid DuckDB SQL query
+3. Provide a brief explanation
+
+Important:
+- Use double quotes for table names: "table_name"
+- Use the listed column types: compare DATE and TIMESTAMP columns with DATE '2024-01-31' literals, not strings
+- Match text values exactly as they appear in the frequent values
+- DuckDB supports standard SQL and many PostgreSQL features
+- Keep queries simple and efficient
+- Always LIMIT results to avoid overwhelming the UI
+
+Conversation:
+- Earlier suggestions are shown with whether they were executed and how that went
+- For follow-ups such as "now group that by region", refine the most recent relevant query instead of starting over
+- If a previous query failed, use the error message to fix it
+
+Charts:
+- Propose a chart only when a visual helps, e.g. trends over time, comparisons between groups or shares of a total; otherwise set chart to null
+- chart.x, chart.y and chart.series must be column names (or aliases) of your query's result
+- Prefer aggregating in SQL and set aggregation to "none"; use "scatter" only with a numeric x column`;
+
+  const messages: ChatMessage[] = [
+    ...buildConversationHistory(history),
+    {
+      role: "user",
+      content: userQuestion,
+    },
+  ];
+
+  // Use Structured Outputs for guaranteed JSON format
+  const responseFormat: ResponseFormat = {
+    type: "json_schema",
+    json_schema: {
+      name: "query_suggestion",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "The DuckDB SQL query"
+          },
+          explanation: {
+            type: "string",
+            description: "A brief explanation of what the query does"
+          },
+          chart: {
+            anyOf: [CHART_SPEC_JSON_SCHEMA, { type: "null" }],
+            description: "A chart of the query result, or null when a chart does not help"
+          }
+        },
+        required: ["query", "explanation", "chart"],
+        additionalProperties: false
+      }
+    }
+  };
+
+  return { systemPrompt, messages, responseFormat };
+}
+
+export async function getSQLQuerySuggestion(
+  userQuestion: string,
+  availableTables: string[],
+  tableSchemas?: Record<string, PromptTableSchema>,
+  { signal, onPartial, history = [], schemaDigest }: QuerySuggestionOptions = {},
+): Promise<QuerySuggestion> {
+  const { systemPrompt, messages, responseFormat } = buildQuerySuggestionPrompt(userQuestion, availableTables, tableSchemas, {
+    history,
+    schemaDigest,
+  });
+
+  const response = await streamChatCompletion(messages, systemPrompt, responseFormat, {
+    signal,
+    onDelta: (_delta, content) =>
+      onPartial?.({
+        query: readPartialJsonString(content, "query") ?? "",
+        explanation: readPartialJsonString(content, "explanation") ?? "",
+      }),
+  });
+
+  try {
+    // With Structured Outputs, the response is guaranteed to be valid JSON
+    const parsed = JSON.parse(response);
+    return {
+      query: parsed.query || "",
+      explanation: parsed.explanation || "",
+      chart: parseChartSpec(parsed.chart),
+    };
+  } catch (error) {
+    console.error("Failed to parse AI response:", error);
+    // This should never happen with Structured Outputs, but keep as fallback
+    return {
+      query: "",
+      explanation: response,
+    };
+  }
+}
+
+export interface ResultSample {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  /** Rows in the full result when `rows` holds only the first of them */
+  totalRows?: number;
+}
+
+export interface SummaryOptions {
+  signal?: AbortSignal;
+  onDelta?: (delta: string, content: string) => void;
+  maxRows?: number;
+  maxCharacters?: number;
+}
+
+const SUMMARY_SAMPLE_ROWS = 50;
+const SUMMARY_SAMPLE_CHARACTERS = 8000;
+
+function promptValueReplacer(_key: string, value: unknown) {
+  return typeof value === "bigint" ? (Number.isSafeInteger(Number(value)) ? Number(value) : value.toString()) : value;
+}
+
+/**
+ * Serialises the first rows of a result as JSON lines, stopping at `maxRows` rows or
+ * `maxCharacters` characters so large results never blow up the prompt.
+ */
+export function sampleResultForPrompt(
+  result: ResultSample,
+  maxRows = SUMMARY_SAMPLE_ROWS,
+  maxCharacters = SUMMARY_SAMPLE_CHARACTERS,
+) {
+  const lines: string[] = [];
+  let length = 0;
+  for (const row of result.rows.slice(0, maxRows)) {
+    const record: Record<string, unknown> = {};
+    result.columns.forEach(column => {
+      record[column] = row[column] ?? null;
+    });
+    const line = JSON.stringify(record, promptValueReplacer);
+    if (length + line.length > maxCharacters && lines.length > 0) {
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+  return { text: lines.join("\n"), sampledRows: lines.length, totalRows: result.totalRows ?? result.rows.length };
+}
+
+/**
+ * Asks the model to answer the user's question in plain language from the executed query's result.
+ * Only a bounded sample of the rows is sent; the model is told when the sample is partial.
+ */
+export async function summarizeQueryResult(
+  userQuestion: string,
+  query: string,
+  result: ResultSample,
+  { signal, onDelta, maxRows, maxCharacters }: SummaryOptions = {},
+): Promise<string> {
+  const sample = sampleResultForPrompt(result, maxRows, maxCharacters);
+  const coverage =
+    sample.sampledRows < sample.totalRows
+      ? `The result has ${sample.totalRows} rows; only the first ${sample.sampledRows} are shown. Do not guess values for the rows that are not shown.`
+      : `The result has ${sample.totalRows} rows, all shown.`;
+
+  const systemPrompt = `You explain SQL query results to business users.
+Answer the user's question in one to three plain sentences using only the result rows below.
+Quote concrete numbers, and state comparisons such as percentages when the rows support them.
+If the rows cannot answer the question, say so briefly. Do not describe the SQL.`;
+
+  const messages: ChatMessage[] = [
+    {
+      role: "user",
+      content: `Question: ${userQuestion}\n\nQuery:\n${query}\n\nColumns: ${result.columns.join(", ")}\n${coverage}\n\nRows (JSON lines):\n${sample.text}`,
+    },
+  ];
+
+  const summary = await streamChatCompletion(messages, systemPrompt, undefined, { signal, onDelta });
+  return summary.trim();
+}
@@ -0,0 +1,75 @@
+import type { ParsedWorkbook, ParseProgress } from "./excel";
+import type { ParseWorkerRequest, ParseWorkerResponse } from "./parse-worker-protocol";
+
+export interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Built as a separate entrypoint by build.ts and served by the Bun server in development
+const PARSE_WORKER_URL = "/parse.worker.js";
+
+let nextRequestId = 1;
+
+function createAbortError() {
+  return new DOMException("Parsing was cancelled", "AbortError");
+}
+
+/**
+ * Parses a workbook (or any format with a registered importer) in a dedicated worker so the UI stays responsive.
+ * xlsx parses synchronously, so cancelling terminates the worker instead of asking it to stop.
+ */
+export async function parseWorkbookInWorker(file: File, { onProgress, signal }: ParseOptions = {}) {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+  const data = await file.arrayBuffer();
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const id = nextRequestId++;
+  const worker = new Worker(PARSE_WORKER_URL, { type: "module" });
+
+  return new Promise<ParsedWorkbook>((resolve, reject) => {
+    const cleanup = () => {
+      signal?.removeEventListener("abort", handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) {
+        return;
+      }
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "done":
+          cleanup();
+          resolve(message.workbook);
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = event => {
+      cleanup();
+      reject(new Error(event.message || "Parse worker failed"));
+    };
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+
+    const request: ParseWorkerRequest = { type: "parse", id, fileName: file.name, mimeType: file.type, data };
+    worker.postMessage(request, [data]);
+  });
+}
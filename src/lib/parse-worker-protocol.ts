@@ -0,0 +1,31 @@
+import type { ParsedWorkbook, ParseProgress } from "./excel";
+
+export interface ParseRequestMessage {
+  type: "parse";
+  id: number;
+  fileName: string;
+  mimeType: string;
+  data: ArrayBuffer;
+}
+
+export type ParseWorkerRequest = ParseRequestMessage;
+
+export interface ParseProgressMessage {
+  type: "progress";
+  id: number;
+  progress: ParseProgress;
+}
+
+export interface ParseDoneMessage {
+  type: "done";
+  id: number;
+  workbook: ParsedWorkbook;
+}
+
+export interface ParseErrorMessage {
+  type: "error";
+  id: number;
+  message: string;
+}
+
+export type ParseWorkerResponse = ParseProgressMessage | ParseDoneMessage | ParseErrorMessage;
@@ -0,0 +1,26 @@
+import { importWorkbook } from "./importers";
+import type { ParseWorkerRequest, ParseWorkerResponse } from "./parse-worker-protocol";
+
+function send(message: ParseWorkerResponse) {
+  postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== "parse") {
+    return;
+  }
+
+  try {
+    const workbook = importWorkbook(request.data, request.fileName, request.mimeType, progress => {
+      send({ type: "progress", id: request.id, progress });
+    });
+    send({ type: "done", id: request.id, workbook });
+  } catch (error) {
+    send({
+      type: "error",
+      id: request.id,
+      message: error instanceof Error ? error.message : "Failed to parse file",
+    });
+  }
+};
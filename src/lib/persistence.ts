@@ -0,0 +1,242 @@
+import { exportTableToParquet, importParquetTable } from "./duckdb";
+import type { ParsedWorkbook } from "./excel";
+import { requestToPromise, TABLE_SNAPSHOT_STORE, withStore, WORKBOOK_STORE } from "./idb";
+import { applySelection, type WorkbookSelectionConfig } from "./selection";
+import type { SessionWorkbook, SheetTableMapping } from "./session";
+
+export type PersistenceBackend = "opfs" | "indexeddb";
+
+interface PersistedWorkbook {
+  id: string;
+  namespace: string;
+  raw: ParsedWorkbook;
+  config: WorkbookSelectionConfig;
+  tableMap: SheetTableMapping;
+  savedAt: number;
+}
+
+/** Stores the Parquet snapshot of each table, keyed by table name */
+interface TableSnapshotStore {
+  write: (tableName: string, data: Uint8Array) => Promise<void>;
+  read: (tableName: string) => Promise<Uint8Array | null>;
+  remove: (tableName: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const PERSISTENCE_FLAG_KEY = "excel-wizard:persistence";
+const OPFS_DIRECTORY = "excel-wizard-tables";
+
+export function isPersistenceEnabled() {
+  try {
+    return localStorage.getItem(PERSISTENCE_FLAG_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+export function setPersistenceEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(PERSISTENCE_FLAG_KEY, "on");
+  } else {
+    localStorage.removeItem(PERSISTENCE_FLAG_KEY);
+  }
+}
+
+function isOpfsAvailable() {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype
+  );
+}
+
+export function getPersistenceBackend(): PersistenceBackend {
+  return isOpfsAvailable() ? "opfs" : "indexeddb";
+}
+
+function snapshotFileName(tableName: string) {
+  return `${tableName}.parquet`;
+}
+
+function isNotFoundError(error: unknown) {
+  return error instanceof DOMException && error.name === "NotFoundError";
+}
+
+async function getOpfsDirectory() {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+}
+
+const opfsSnapshotStore: TableSnapshotStore = {
+  async write(tableName, data) {
+    const directory = await getOpfsDirectory();
+    const handle = await directory.getFileHandle(snapshotFileName(tableName), { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(new Uint8Array(data));
+    await writable.close();
+  },
+  async read(tableName) {
+    try {
+      const directory = await getOpfsDirectory();
+      const handle = await directory.getFileHandle(snapshotFileName(tableName));
+      return new Uint8Array(await (await handle.getFile()).arrayBuffer());
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+  async remove(tableName) {
+    try {
+      const directory = await getOpfsDirectory();
+      await directory.removeEntry(snapshotFileName(tableName));
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  },
+  async clear() {
+    try {
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(OPFS_DIRECTORY, { recursive: true });
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  },
+};
+
+const indexedDbSnapshotStore: TableSnapshotStore = {
+  async write(tableName, data) {
+    await withStore(TABLE_SNAPSHOT_STORE, "readwrite", store => requestToPromise(store.put(data, tableName)));
+  },
+  async read(tableName) {
+    const data = await withStore(TABLE_SNAPSHOT_STORE, "readonly", store =>
+      requestToPromise(store.get(tableName) as IDBRequest<Uint8Array | undefined>),
+    );
+    return data ?? null;
+  },
+  async remove(tableName) {
+    await withStore(TABLE_SNAPSHOT_STORE, "readwrite", store => requestToPromise(store.delete(tableName)));
+  },
+  async clear() {
+    await withStore(TABLE_SNAPSHOT_STORE, "readwrite", store => requestToPromise(store.clear()));
+  },
+};
+
+function getSnapshotStore() {
+  return getPersistenceBackend() === "opfs" ? opfsSnapshotStore : indexedDbSnapshotStore;
+}
+
+// Snapshot writes are serialised so a quick re-upload cannot interleave with the previous save
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(task, task);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Saves the workbook metadata and a Parquet snapshot of each of its tables.
+ * Snapshots of tables that were in `previousTableMap` but are no longer produced are deleted.
+ */
+export function saveWorkbookSnapshot(workbook: SessionWorkbook, previousTableMap: SheetTableMapping = {}) {
+  return enqueue(async () => {
+    const snapshots = getSnapshotStore();
+    const tables = Object.values(workbook.tableMap);
+    for (const tableName of tables) {
+      await snapshots.write(tableName, await exportTableToParquet(tableName));
+    }
+    const staleTables = Object.values(previousTableMap).filter(name => !tables.includes(name));
+    await Promise.all(staleTables.map(name => snapshots.remove(name)));
+
+    const record: PersistedWorkbook = {
+      id: workbook.id,
+      namespace: workbook.namespace,
+      raw: workbook.raw,
+      config: workbook.config,
+      tableMap: workbook.tableMap,
+      savedAt: Date.now(),
+    };
+    await withStore(WORKBOOK_STORE, "readwrite", store => requestToPromise(store.put(record)));
+  });
+}
+
+// The latest request per table; a queued snapshot that was superseded before it ran is skipped
+const tableSnapshotRequests = new Map<string, number>();
+
+/**
+ * Saves a new snapshot of one table, e.g. after its cells were edited. Snapshots run one at a time
+ * in request order, and only the latest request per table writes, so an older snapshot can never
+ * overwrite a newer one.
+ */
+export function saveTableSnapshot(tableName: string) {
+  const request = (tableSnapshotRequests.get(tableName) ?? 0) + 1;
+  tableSnapshotRequests.set(tableName, request);
+  return enqueue(async () => {
+    if (tableSnapshotRequests.get(tableName) !== request) {
+      return;
+    }
+    await getSnapshotStore().write(tableName, await exportTableToParquet(tableName));
+  });
+}
+
+export function deleteWorkbookSnapshot(workbook: SessionWorkbook) {
+  return enqueue(async () => {
+    const snapshots = getSnapshotStore();
+    await Promise.all(Object.values(workbook.tableMap).map(name => snapshots.remove(name)));
+    await withStore(WORKBOOK_STORE, "readwrite", store => requestToPromise(store.delete(workbook.id)));
+  });
+}
+
+/**
+ * Loads the saved workbooks and recreates their DuckDB tables from the snapshots.
+ * Sheets whose snapshot is missing are left out of the restored table map.
+ */
+export async function restorePersistedSession(): Promise<SessionWorkbook[]> {
+  const records = await withStore(WORKBOOK_STORE, "readonly", store =>
+    requestToPromise(store.getAll() as IDBRequest<PersistedWorkbook[]>),
+  );
+  const snapshots = getSnapshotStore();
+
+  const restored: SessionWorkbook[] = [];
+  for (const record of records.sort((a, b) => a.savedAt - b.savedAt)) {
+    const tableMap: SheetTableMapping = {};
+    for (const [sheetName, tableName] of Object.entries(record.tableMap)) {
+      const data = await snapshots.read(tableName);
+      if (!data) {
+        console.warn(`No local snapshot found for table "${tableName}"`);
+        continue;
+      }
+      await importParquetTable(tableName, data);
+      tableMap[sheetName] = tableName;
+    }
+    restored.push({
+      id: record.id,
+      namespace: record.namespace,
+      raw: record.raw,
+      config: record.config,
+      processed: applySelection(record.raw, record.config),
+      tableMap,
+    });
+  }
+  return restored;
+}
+
+/**
+ * Deletes every saved workbook and table snapshot. Query history is cleared separately.
+ */
+export function clearPersistedSession() {
+  return enqueue(async () => {
+    await Promise.all([
+      isOpfsAvailable() ? opfsSnapshotStore.clear() : Promise.resolve(),
+      indexedDbSnapshotStore.clear(),
+      withStore(WORKBOOK_STORE, "readwrite", store => requestToPromise(store.clear())),
+    ]);
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { applyColumnPrivacy, buildResultPrivacy, detectColumnPii, maskValue, resultColumnPrivacy } from "./privacy";
+
+describe("detectColumnPii", () => {
+  test("flags columns by name", () => {
+    expect(detectColumnPii("E-mail", [])).toBe("email");
+    expect(detectColumnPii("mobile", [])).toBe("phone");
+    expect(detectColumnPii("customerId", [])).toBe("id");
+    expect(detectColumnPii("iban", [])).toBe("id");
+  });
+
+  test("flags columns by their values", () => {
+    expect(detectColumnPii("contact", ["a@example.com", "b@example.org", null, ""])).toBe("email");
+    expect(detectColumnPii("contact", ["+1 (555) 123-4567", "555-987-6543"])).toBe("phone");
+    expect(detectColumnPii("reference", ["4111111111111111", "AB12CD34EF"])).toBe("id");
+  });
+
+  test("leaves ordinary columns alone", () => {
+    expect(detectColumnPii("amount", [1200, 5551234, 99])).toBeNull();
+    expect(detectColumnPii("region", ["North", "South"])).toBeNull();
+    expect(detectColumnPii("paid", ["valid", "invalid"])).toBeNull();
+  });
+});
+
+describe("masking", () => {
+  test("keeps the shape of values", () => {
+    expect(maskValue("AB-1234")).toBe("XX-9999");
+    expect(maskValue("jane@corp.com")).toBe("user@example.com");
+    expect(maskValue(new Date())).toBe("YYYY-MM-DD");
+    expect(maskValue(null)).toBeNull();
+  });
+
+  test("drops name-only columns and masks masked ones", () => {
+    const policies = {
+      email: { privacy: "masked", pii: "email" },
+      ssn: { privacy: "name-only", pii: "id" },
+      region: { privacy: "real", pii: null },
+    } as const;
+    const rows = applyColumnPrivacy(["email", "ssn", "region"], [{ email: "a@b.co", ssn: "1", region: "North" }], column =>
+      policies[column as keyof typeof policies],
+    );
+    expect(rows).toEqual([{ email: "user@example.com", region: "North" }]);
+  });
+});
+
+describe("resultColumnPrivacy", () => {
+  const resultPrivacy = buildResultPrivacy([
+    { columns: [{ name: "Email", privacy: "masked", pii: "email" }, { name: "region", privacy: "real", pii: null }] },
+    { columns: [{ name: "email", privacy: "name-only", pii: null }] },
+  ]);
+
+  test("matches columns by name, strictest setting first", () => {
+    expect(resultColumnPrivacy(resultPrivacy, "SELECT email FROM a", "EMAIL")).toEqual({ privacy: "name-only", pii: "email" });
+    expect(resultColumnPrivacy(resultPrivacy, "SELECT region FROM a", "region")).toEqual({ privacy: "real", pii: null });
+  });
+
+  test("treats aliased and unknown columns as unmatched", () => {
+    expect(resultColumnPrivacy(resultPrivacy, `SELECT email AS "region" FROM a`, "region")).toEqual({
+      privacy: "name-only",
+      pii: null,
+    });
+    expect(resultColumnPrivacy(resultPrivacy, "SELECT 1 AS total", "total", true)).toEqual({ privacy: "real", pii: null });
+  });
+});
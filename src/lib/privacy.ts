@@ -0,0 +1,188 @@
+export type ColumnPrivacy = "name-only" | "masked" | "real";
+
+export type PiiKind = "email" | "phone" | "id";
+
+export const COLUMN_PRIVACY_OPTIONS: { value: ColumnPrivacy; label: string }[] = [
+  { value: "name-only", label: "Name only" },
+  { value: "masked", label: "Masked sample" },
+  { value: "real", label: "Real values" },
+];
+
+/** Explicit choices per table and column; columns without one use `defaultColumnPrivacy` */
+export type PrivacySettings = Record<string, Record<string, ColumnPrivacy>>;
+
+export interface PromptTableSchema {
+  columns: string[];
+  sampleRows: Record<string, unknown>[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+// SSN-like, IBAN, card numbers and long mixed letter/digit codes
+const ID_VALUE_PATTERNS = [/^\d{3}-\d{2}-\d{4}$/, /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/, /^\d{13,19}$/, /^(?=.*\d)(?=.*[A-Z])[A-Z0-9-]{8,}$/i];
+const ID_NAME_PATTERN =
+  /(^|[^a-z])(id|ssn|passport|iban|account|acct|license|licence|tax|national|customer[_ ]?(no|number)|employee[_ ]?(no|number))([^a-z]|$)/i;
+const EMAIL_NAME_PATTERN = /e-?mail/i;
+const PHONE_NAME_PATTERN = /phone|mobile|tel(ephone)?|fax/i;
+
+const DETECTION_SAMPLE_SIZE = 200;
+const DETECTION_THRESHOLD = 0.6;
+
+function countDigits(text: string) {
+  return text.replace(/\D/g, "").length;
+}
+
+function matchRatio(values: string[], test: (value: string) => boolean) {
+  return values.length === 0 ? 0 : values.filter(test).length / values.length;
+}
+
+/**
+ * Flags columns that look like personal data from their name and a sample of their values.
+ */
+export function detectColumnPii(name: string, values: unknown[]): PiiKind | null {
+  const sample = values
+    .slice(0, DETECTION_SAMPLE_SIZE)
+    .filter(value => value !== null && value !== undefined && String(value).trim() !== "")
+    .map(value => String(value).trim());
+
+  if (EMAIL_NAME_PATTERN.test(name) || matchRatio(sample, value => EMAIL_PATTERN.test(value)) >= DETECTION_THRESHOLD) {
+    return "email";
+  }
+  const looksLikePhone = (value: string) => PHONE_PATTERN.test(value) && countDigits(value) >= 7 && countDigits(value) <= 15;
+  if (
+    PHONE_NAME_PATTERN.test(name) ||
+    // Plain numbers are far more often amounts than phone numbers, so require some formatting
+    matchRatio(sample, value => looksLikePhone(value) && /[\s().+-]/.test(value)) >= DETECTION_THRESHOLD
+  ) {
+    return "phone";
+  }
+  if (
+    // Split camelCase so "customerId" is read as "customer Id"
+    ID_NAME_PATTERN.test(name.replace(/([a-z])([A-Z])/g, "$1 $2")) ||
+    matchRatio(sample, value => ID_VALUE_PATTERNS.some(pattern => pattern.test(value))) >= DETECTION_THRESHOLD
+  ) {
+    return "id";
+  }
+  return null;
+}
+
+export function defaultColumnPrivacy(pii: PiiKind | null): ColumnPrivacy {
+  return pii ? "masked" : "real";
+}
+
+function maskText(text: string) {
+  return text.replace(/[A-Z]/g, "X").replace(/[a-z]/g, "x").replace(/\d/g, "9");
+}
+
+/**
+ * Replaces a value with a synthetic one of the same shape, e.g. "AB-1234" becomes "XX-9999".
+ * Emails keep only the structure, dates only the type.
+ */
+export function maskValue(value: unknown, pii: PiiKind | null = null): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return "YYYY-MM-DD";
+  }
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const text = typeof value === "bigint" ? value.toString() : String(value);
+  if (pii === "email" || EMAIL_PATTERN.test(text)) {
+    return "user@example.com";
+  }
+  return maskText(text);
+}
+
+export function resolveColumnPrivacy(
+  settings: PrivacySettings,
+  tableName: string,
+  columnName: string,
+  pii: PiiKind | null,
+): ColumnPrivacy {
+  return settings[tableName]?.[columnName] ?? defaultColumnPrivacy(pii);
+}
+
+/**
+ * Applies per-column privacy to sample rows: name-only columns are dropped from the rows
+ * (their names are still listed), masked columns get synthetic values.
+ */
+export function applyColumnPrivacy(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  privacyFor: (column: string) => { privacy: ColumnPrivacy; pii: PiiKind | null },
+): Record<string, unknown>[] {
+  const policies = columns.map(column => ({ column, ...privacyFor(column) }));
+  return rows.map(row => {
+    const record: Record<string, unknown> = {};
+    policies.forEach(({ column, privacy, pii }) => {
+      if (privacy === "real") {
+        record[column] = row[column];
+      } else if (privacy === "masked") {
+        record[column] = maskValue(row[column], pii);
+      }
+    });
+    return record;
+  });
+}
+
+const PRIVACY_STRICTNESS: Record<ColumnPrivacy, number> = { real: 0, masked: 1, "name-only": 2 };
+
+export function stricterPrivacy(a: ColumnPrivacy, b: ColumnPrivacy) {
+  return PRIVACY_STRICTNESS[a] >= PRIVACY_STRICTNESS[b] ? a : b;
+}
+
+/** Privacy for query result columns, which are matched to sheet columns by name */
+export interface ResultPrivacy {
+  /** Keyed by lower-case column name; the strictest setting wins across tables */
+  columns: Record<string, { privacy: ColumnPrivacy; pii: PiiKind | null }>;
+  /** For columns that match no sheet column: the strictest setting in the session, at least masked */
+  unmatched: ColumnPrivacy;
+}
+
+export const EMPTY_RESULT_PRIVACY: ResultPrivacy = { columns: {}, unmatched: "masked" };
+
+/**
+ * Merges the column settings of every table into the policies for query results.
+ */
+export function buildResultPrivacy(
+  tables: { columns: { name: string; privacy: ColumnPrivacy; pii: PiiKind | null }[] }[],
+): ResultPrivacy {
+  const columns: ResultPrivacy["columns"] = {};
+  let unmatched: ColumnPrivacy = "masked";
+  tables.forEach(table => {
+    table.columns.forEach(column => {
+      const key = column.name.toLowerCase();
+      const existing = columns[key];
+      columns[key] = existing
+        ? { privacy: stricterPrivacy(existing.privacy, column.privacy), pii: existing.pii ?? column.pii }
+        : { privacy: column.privacy, pii: column.pii };
+      unmatched = stricterPrivacy(unmatched, column.privacy);
+    });
+  });
+  return { columns, unmatched };
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Privacy for one result column of `sql`. A column the query names with `AS` is treated as
+ * unmatched even when a sheet column has that name, since the alias may hide any expression.
+ * Unmatched columns only send real values when `allowUnmatchedReal` is set by the user.
+ */
+export function resultColumnPrivacy(
+  resultPrivacy: ResultPrivacy,
+  sql: string,
+  column: string,
+  allowUnmatchedReal = false,
+): { privacy: ColumnPrivacy; pii: PiiKind | null } {
+  const aliased = new RegExp(`\\bAS\\s+("?)${escapeRegExp(column)}\\1(?![\\w"])`, "i").test(sql);
+  const matched = aliased ? undefined : resultPrivacy.columns[column.toLowerCase()];
+  if (matched) {
+    return matched;
+  }
+  return { privacy: allowUnmatchedReal ? "real" : resultPrivacy.unmatched, pii: null };
+}
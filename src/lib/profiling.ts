@@ -0,0 +1,113 @@
+import { collectTopValues, isCategoricalColumnType, isNumericColumnType, toNumber, toText, type TopValue } from "./column-stats";
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { quoteIdentifier } from "./schema";
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  nullCount: number;
+  /** Approximate, from SUMMARIZE */
+  distinctCount: number;
+  min: string | null;
+  max: string | null;
+  mean: number | null;
+  stddev: number | null;
+  /** Numeric columns only */
+  histogram: HistogramBucket[];
+  /** Text and boolean columns only */
+  topValues: TopValue[];
+}
+
+export interface TableProfile {
+  tableName: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+export const HISTOGRAM_BUCKETS = 20;
+export const TOP_VALUE_LIMIT = 10;
+
+/**
+ * Buckets a numeric column into equal-width bins between its min and max.
+ * The max value falls into the last bucket.
+ */
+async function collectHistogram(tableName: string, columnName: string, min: number, max: number) {
+  if (min === max) {
+    const result = arrowTableToObjects(
+      await runQuery(`SELECT COUNT(${quoteIdentifier(columnName)}) AS count FROM ${quoteIdentifier(tableName)}`),
+    );
+    return [{ from: min, to: max, count: toNumber(result.rows[0]?.count) ?? 0 }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BUCKETS;
+  const column = `CAST(${quoteIdentifier(columnName)} AS DOUBLE)`;
+  const result = arrowTableToObjects(
+    await runQuery(
+      `SELECT LEAST(CAST(FLOOR((${column} - ${min}) / ${width}) AS INTEGER), ${HISTOGRAM_BUCKETS - 1}) AS bucket, COUNT(*) AS count ` +
+        `FROM ${quoteIdentifier(tableName)} WHERE ${column} IS NOT NULL GROUP BY 1`,
+    ),
+  );
+  const counts = new Map(result.rows.map(row => [toNumber(row.bucket) ?? 0, toNumber(row.count) ?? 0]));
+  return Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => ({
+    from: min + index * width,
+    to: index === HISTOGRAM_BUCKETS - 1 ? max : min + (index + 1) * width,
+    count: counts.get(index) ?? 0,
+  }));
+}
+
+/**
+ * Profiles every column of a registered table. `SUMMARIZE` gives types, ranges and moments,
+ * one aggregate query gives exact null counts, and numeric and text columns get a histogram
+ * or their most frequent values.
+ */
+export async function profileTable(tableName: string): Promise<TableProfile> {
+  const table = quoteIdentifier(tableName);
+  const summary = arrowTableToObjects(
+    await runQuery(
+      `SELECT column_name, column_type, min, max, approx_unique, avg, std, count FROM (SUMMARIZE ${table})`,
+    ),
+  ).rows;
+  const rowCount = toNumber(summary[0]?.count) ?? 0;
+
+  const names = summary.map(row => String(row.column_name));
+  const nullCounts =
+    names.length > 0
+      ? arrowTableToObjects(
+          await runQuery(
+            `SELECT ${names.map((name, index) => `COUNT(*) - COUNT(${quoteIdentifier(name)}) AS n${index}`).join(", ")} FROM ${table}`,
+          ),
+        ).rows[0] ?? {}
+      : {};
+
+  const columns: ColumnProfile[] = [];
+  for (const [index, row] of summary.entries()) {
+    const name = names[index]!;
+    const type = String(row.column_type);
+    const numeric = isNumericColumnType(type);
+    const min = toText(row.min);
+    const max = toText(row.max);
+    const numericMin = numeric ? toNumber(min) : null;
+    const numericMax = numeric ? toNumber(max) : null;
+
+    columns.push({
+      name,
+      type,
+      nullCount: toNumber(nullCounts[`n${index}`]) ?? 0,
+      distinctCount: toNumber(row.approx_unique) ?? 0,
+      min,
+      max,
+      mean: numeric ? toNumber(row.avg) : null,
+      stddev: numeric ? toNumber(row.std) : null,
+      histogram:
+        numericMin !== null && numericMax !== null ? await collectHistogram(tableName, name, numericMin, numericMax) : [],
+      topValues: isCategoricalColumnType(type) ? await collectTopValues(tableName, name, TOP_VALUE_LIMIT) : [],
+    });
+  }
+  return { tableName, rowCount, columns };
+}
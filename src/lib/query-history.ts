@@ -0,0 +1,73 @@
+import { QUERY_HISTORY_STORE, requestToPromise, withStore } from "./idb";
+import { createId } from "./utils";
+
+export interface QueryHistoryEntry {
+  id: string;
+  sql: string;
+  executedAt: number;
+  durationMs: number;
+  rowCount: number | null;
+  error: string | null;
+  starred: boolean;
+  name: string | null;
+}
+
+export type QueryExecution = Pick<QueryHistoryEntry, "sql" | "executedAt" | "durationMs" | "rowCount" | "error">;
+
+// Unstarred entries beyond this count are pruned, oldest first
+const MAX_UNSTARRED_ENTRIES = 500;
+
+export async function listQueryHistory(): Promise<QueryHistoryEntry[]> {
+  const entries = await withStore(QUERY_HISTORY_STORE, "readonly", store =>
+    requestToPromise(store.getAll() as IDBRequest<QueryHistoryEntry[]>),
+  );
+  return entries.sort((a, b) => b.executedAt - a.executedAt);
+}
+
+export async function recordQueryExecution(execution: QueryExecution): Promise<QueryHistoryEntry> {
+  const entry: QueryHistoryEntry = { ...execution, id: createId(), starred: false, name: null };
+  await withStore(QUERY_HISTORY_STORE, "readwrite", store => requestToPromise(store.put(entry)));
+  await pruneQueryHistory();
+  return entry;
+}
+
+export async function updateQueryHistoryEntry(id: string, patch: Partial<Pick<QueryHistoryEntry, "starred" | "name">>) {
+  await withStore(QUERY_HISTORY_STORE, "readwrite", async store => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<QueryHistoryEntry | undefined>);
+    if (existing) {
+      await requestToPromise(store.put({ ...existing, ...patch }));
+    }
+  });
+}
+
+export async function deleteQueryHistoryEntry(id: string) {
+  await withStore(QUERY_HISTORY_STORE, "readwrite", store => requestToPromise(store.delete(id)));
+}
+
+export async function clearQueryHistory() {
+  await withStore(QUERY_HISTORY_STORE, "readwrite", store => requestToPromise(store.clear()));
+}
+
+async function pruneQueryHistory() {
+  const entries = await listQueryHistory();
+  const stale = entries.filter(entry => !entry.starred).slice(MAX_UNSTARRED_ENTRIES);
+  if (stale.length === 0) {
+    return;
+  }
+  await withStore(QUERY_HISTORY_STORE, "readwrite", store =>
+    Promise.all(stale.map(entry => requestToPromise(store.delete(entry.id)))),
+  );
+}
+
+export function filterQueryHistory(entries: QueryHistoryEntry[], search: string, starredOnly: boolean) {
+  const term = search.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (starredOnly && !entry.starred) {
+      return false;
+    }
+    if (!term) {
+      return true;
+    }
+    return entry.sql.toLowerCase().includes(term) || (entry.name ?? "").toLowerCase().includes(term);
+  });
+}
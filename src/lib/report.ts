@@ -0,0 +1,106 @@
+import { utils, write, type WorkBook } from "xlsx";
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { resultToWorksheet, toSheetName } from "./export";
+import type { ProcessedSheet } from "./selection";
+
+export interface ReportQuery {
+  id: string;
+  name: string;
+  sql: string;
+}
+
+export interface ReportSheet {
+  label: string;
+  sheet: ProcessedSheet;
+}
+
+export interface ReportQueryOutcome {
+  name: string;
+  sheetName: string | null;
+  sql: string;
+  rowCount: number | null;
+  durationMs: number;
+  error: string | null;
+}
+
+export interface ReportWorkbook {
+  data: ArrayBuffer;
+  outcomes: ReportQueryOutcome[];
+}
+
+const SUMMARY_SHEET_NAME = "Summary";
+
+function uniqueSheetName(workbook: WorkBook, name: string) {
+  const base = toSheetName(name);
+  const taken = new Set(workbook.SheetNames.map(sheetName => sheetName.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) {
+    return base;
+  }
+  let suffix = 2;
+  let candidate = base;
+  while (taken.has(candidate.toLowerCase())) {
+    const tail = ` (${suffix})`;
+    candidate = `${base.slice(0, 31 - tail.length)}${tail}`;
+    suffix += 1;
+  }
+  return candidate;
+}
+
+/**
+ * Runs every named query and writes the results, the selected processed sheets and a summary
+ * sheet (SQL text, row count and run time per query) into a single xlsx file.
+ * A failing query is reported in the summary instead of aborting the whole report.
+ */
+export async function buildReportWorkbook(queries: ReportQuery[], sheets: ReportSheet[]): Promise<ReportWorkbook> {
+  const workbook = utils.book_new();
+  // Reserve the first position so the summary opens first
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet([[]]), SUMMARY_SHEET_NAME);
+
+  const outcomes: ReportQueryOutcome[] = [];
+  for (const query of queries) {
+    const started = performance.now();
+    try {
+      const result = arrowTableToObjects(await runQuery(query.sql));
+      const durationMs = Math.round(performance.now() - started);
+      const sheetName = uniqueSheetName(workbook, query.name);
+      utils.book_append_sheet(workbook, resultToWorksheet(result), sheetName);
+      outcomes.push({ name: query.name, sheetName, sql: query.sql, rowCount: result.rows.length, durationMs, error: null });
+    } catch (error) {
+      outcomes.push({
+        name: query.name,
+        sheetName: null,
+        sql: query.sql,
+        rowCount: null,
+        durationMs: Math.round(performance.now() - started),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const { label, sheet } of sheets) {
+    utils.book_append_sheet(workbook, resultToWorksheet(sheet, "local"), uniqueSheetName(workbook, label));
+  }
+
+  const summary = [
+    ["Report generated", new Date()],
+    [],
+    ["Query", "Sheet", "SQL", "Rows", "Run time (ms)", "Error"],
+    ...outcomes.map(outcome => [
+      outcome.name,
+      outcome.sheetName,
+      outcome.sql,
+      outcome.rowCount,
+      outcome.durationMs,
+      outcome.error,
+    ]),
+  ];
+  if (sheets.length > 0) {
+    summary.push([], ["Included sheets"], ...sheets.map(({ label, sheet }) => [label, null, null, sheet.rows.length]));
+  }
+  workbook.Sheets[SUMMARY_SHEET_NAME] = utils.aoa_to_sheet(summary, { cellDates: true });
+
+  return {
+    data: write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer,
+    outcomes,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import type { ColumnPrivacy } from "./privacy";
+import { formatSchemaDigest, type ColumnDigest, type TableDigest } from "./schema-digest";
+
+function column(name: string, overrides: Partial<ColumnDigest> = {}): ColumnDigest {
+  return { name, type: "VARCHAR", nullRatio: 0, distinctCount: 3, min: "a", max: "c", topValues: [], ...overrides };
+}
+
+const sales: TableDigest = {
+  tableName: "sales",
+  rowCount: 120,
+  columns: [
+    column("region", { topValues: [{ value: "North", count: 70 }, { value: "South", count: 50 }] }),
+    column("amount", { type: "DOUBLE", nullRatio: 0.004, distinctCount: 118, min: "1.5", max: "990" }),
+    column("email", { min: "ann@corp.com", max: "zed@corp.com" }),
+  ],
+};
+
+const privacy: Record<string, ColumnPrivacy> = { email: "masked" };
+const privacyFor = (_tableName: string, columnName: string) => ({ privacy: privacy[columnName] ?? "real", pii: null });
+
+describe("formatSchemaDigest", () => {
+  test("lists every column in full detail when the budget allows", () => {
+    expect(formatSchemaDigest([sales], privacyFor)).toBe(
+      [
+        "Table: sales (120 rows)",
+        `- "region" VARCHAR, 0% null, ~3 distinct, range a .. c, top: "North" (70), "South" (50)`,
+        `- "amount" DOUBLE, <1% null, ~118 distinct, range 1.5 .. 990`,
+        `- "email" VARCHAR, 0% null, ~3 distinct, range user@example.com .. user@example.com`,
+      ].join("\n"),
+    );
+  });
+
+  test("never shows values of name-only columns", () => {
+    const text = formatSchemaDigest([sales], (_tableName, columnName) => ({
+      privacy: columnName === "region" ? "name-only" : "real",
+      pii: null,
+    }));
+    expect(text).toContain(`- "region" VARCHAR, 0% null, ~3 distinct\n`);
+    expect(text).not.toContain("North");
+  });
+
+  test("drops top values, then ranges, then trailing columns to fit the budget", () => {
+    const full = formatSchemaDigest([sales], privacyFor);
+    const withoutTopValues = formatSchemaDigest([sales], privacyFor, Math.floor((full.length - 1) / 4));
+    expect(withoutTopValues).not.toContain("top:");
+    expect(withoutTopValues).toContain("range");
+
+    const bare = formatSchemaDigest([sales], privacyFor, Math.floor(withoutTopValues.length / 4) - 1);
+    expect(bare).not.toContain("range");
+    expect(bare.split("\n")).toHaveLength(4);
+
+    const cut = formatSchemaDigest([sales], privacyFor, 20);
+    expect(cut).toContain("- ... 2 more column(s)");
+    expect(cut.split("\n")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,140 @@
+import { collectTopValues, isCategoricalColumnType, toNumber, toText, type TopValue } from "./column-stats";
+import { arrowTableToObjects, runQuery } from "./duckdb";
+import { maskValue, type ColumnPrivacy, type PiiKind } from "./privacy";
+import { quoteIdentifier } from "./schema";
+
+export interface ColumnDigest {
+  name: string;
+  type: string;
+  nullRatio: number;
+  /** Approximate, from SUMMARIZE */
+  distinctCount: number;
+  min: string | null;
+  max: string | null;
+  /** Most frequent values of low-cardinality text columns */
+  topValues: TopValue[];
+}
+
+export interface TableDigest {
+  tableName: string;
+  rowCount: number;
+  columns: ColumnDigest[];
+}
+
+export type DigestPrivacyLookup = (tableName: string, columnName: string) => { privacy: ColumnPrivacy; pii: PiiKind | null };
+
+export const DEFAULT_DIGEST_TOKEN_BUDGET = 3000;
+
+// Rough average for English text and identifiers; good enough to keep the prompt bounded
+const CHARACTERS_PER_TOKEN = 4;
+const TOP_VALUE_MAX_DISTINCT = 50;
+const TOP_VALUE_COUNT = 5;
+const DIGEST_VALUE_LENGTH = 40;
+
+/**
+ * Profiles a registered table with `DESCRIBE` and `SUMMARIZE`, plus the most frequent values
+ * of low-cardinality text columns. The digest holds real values; privacy is applied when formatting.
+ */
+export async function collectTableDigest(tableName: string): Promise<TableDigest> {
+  const table = quoteIdentifier(tableName);
+  const described = arrowTableToObjects(await runQuery(`DESCRIBE ${table}`)).rows;
+  // null_percentage is a DECIMAL, which Arrow hands back in an awkward form
+  const summary = arrowTableToObjects(
+    await runQuery(
+      `SELECT column_name, min, max, approx_unique, count, CAST(null_percentage AS DOUBLE) AS null_percentage FROM (SUMMARIZE ${table})`,
+    ),
+  ).rows;
+  const statsByColumn = new Map(summary.map(row => [String(row.column_name), row]));
+
+  let rowCount = 0;
+  const columns: ColumnDigest[] = [];
+  for (const row of described) {
+    const name = String(row.column_name);
+    const type = String(row.column_type);
+    const stats = statsByColumn.get(name);
+    rowCount = Math.max(rowCount, toNumber(stats?.count) ?? 0);
+    const distinctCount = toNumber(stats?.approx_unique) ?? 0;
+    columns.push({
+      name,
+      type,
+      nullRatio: (toNumber(stats?.null_percentage) ?? 0) / 100,
+      distinctCount,
+      min: toText(stats?.min, { dateOnly: true }),
+      max: toText(stats?.max, { dateOnly: true }),
+      topValues:
+        isCategoricalColumnType(type) && distinctCount > 0 && distinctCount <= TOP_VALUE_MAX_DISTINCT
+          ? await collectTopValues(tableName, name, TOP_VALUE_COUNT)
+          : [],
+    });
+  }
+  return { tableName, rowCount, columns };
+}
+
+function shorten(text: string) {
+  return text.length > DIGEST_VALUE_LENGTH ? `${text.slice(0, DIGEST_VALUE_LENGTH)}...` : text;
+}
+
+function formatPercent(ratio: number) {
+  return ratio > 0 && ratio < 0.01 ? "<1%" : `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Detail levels: 2 adds top values, 1 adds min/max, 0 is name, type, null ratio and distinct count.
+ * Name-only columns never show values; masked columns show masked values.
+ */
+function formatColumn(column: ColumnDigest, privacy: ColumnPrivacy, pii: PiiKind | null, detail: number) {
+  const parts = [`${quoteIdentifier(column.name)} ${column.type}`, `${formatPercent(column.nullRatio)} null`, `~${column.distinctCount} distinct`];
+  if (privacy === "name-only") {
+    return `- ${parts.join(", ")}`;
+  }
+  const show = (value: string) => shorten(String(privacy === "masked" ? maskValue(value, pii) : value));
+  if (detail >= 1 && column.min !== null && column.max !== null) {
+    parts.push(`range ${show(column.min)} .. ${show(column.max)}`);
+  }
+  if (detail >= 2 && column.topValues.length > 0) {
+    parts.push(`top: ${column.topValues.map(top => `${JSON.stringify(show(top.value))} (${top.count})`).join(", ")}`);
+  }
+  return `- ${parts.join(", ")}`;
+}
+
+function formatTables(tables: TableDigest[], privacyFor: DigestPrivacyLookup, detail: number, maxColumns = Infinity) {
+  return tables
+    .map(table => {
+      const lines = table.columns.slice(0, maxColumns).map(column => {
+        const { privacy, pii } = privacyFor(table.tableName, column.name);
+        return formatColumn(column, privacy, pii, detail);
+      });
+      if (table.columns.length > maxColumns) {
+        lines.push(`- ... ${table.columns.length - maxColumns} more column(s)`);
+      }
+      return `Table: ${table.tableName} (${table.rowCount} rows)\n${lines.join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Renders table digests as prompt text within a token budget. Detail is dropped before columns:
+ * first top values, then min/max, and only then are trailing columns cut.
+ */
+export function formatSchemaDigest(
+  tables: TableDigest[],
+  privacyFor: DigestPrivacyLookup,
+  maxTokens = DEFAULT_DIGEST_TOKEN_BUDGET,
+) {
+  const maxCharacters = maxTokens * CHARACTERS_PER_TOKEN;
+  for (let detail = 2; detail >= 0; detail -= 1) {
+    const text = formatTables(tables, privacyFor, detail);
+    if (text.length <= maxCharacters) {
+      return text;
+    }
+  }
+
+  const widest = Math.max(0, ...tables.map(table => table.columns.length));
+  let maxColumns = widest;
+  let text = formatTables(tables, privacyFor, 0, maxColumns);
+  while (text.length > maxCharacters && maxColumns > 1) {
+    maxColumns = Math.max(1, Math.floor(maxColumns * 0.75));
+    text = formatTables(tables, privacyFor, 0, maxColumns);
+  }
+  return text;
+}
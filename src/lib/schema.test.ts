@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { buildCreateTableSql, inferColumnType, inferSheetSchema, toSqlLiteral } from "./schema";
+
+describe("inferColumnType", () => {
+  test("picks the narrowest type that holds every value", () => {
+    expect(inferColumnType([1, 2, 3])).toBe("BIGINT");
+    expect(inferColumnType([1, 2.5])).toBe("DOUBLE");
+    expect(inferColumnType([true, false])).toBe("BOOLEAN");
+    expect(inferColumnType([new Date(2024, 0, 1), new Date(2024, 5, 30)])).toBe("DATE");
+    expect(inferColumnType([new Date(2024, 0, 1), new Date(2024, 0, 1, 9, 30)])).toBe("TIMESTAMP");
+  });
+
+  test("ignores blanks and falls back to VARCHAR for empty or mixed columns", () => {
+    expect(inferColumnType([null, "", 4])).toBe("BIGINT");
+    expect(inferColumnType([null, "  "])).toBe("VARCHAR");
+    expect(inferColumnType([1, "one"])).toBe("VARCHAR");
+    expect(inferColumnType([1, true])).toBe("VARCHAR");
+  });
+
+  test("keeps numbers stored as text cells as text", () => {
+    expect(inferColumnType([123, 456], ["s", "s"])).toBe("VARCHAR");
+  });
+});
+
+describe("inferSheetSchema", () => {
+  test("applies valid overrides but keeps the inferred type", () => {
+    const schema = inferSheetSchema(["id", "amount"], [{ id: 1, amount: 2.5 }], [], { id: "VARCHAR" });
+    expect(schema).toEqual([
+      { name: "id", type: "VARCHAR", inferredType: "BIGINT" },
+      { name: "amount", type: "DOUBLE", inferredType: "DOUBLE" },
+    ]);
+  });
+});
+
+describe("DDL", () => {
+  test("quotes identifiers in CREATE TABLE", () => {
+    const sql = buildCreateTableSql('my "table"', [
+      { name: "id", type: "BIGINT", inferredType: "BIGINT" },
+      { name: "first name", type: "VARCHAR", inferredType: "VARCHAR" },
+    ]);
+    expect(sql).toBe('CREATE TABLE "my ""table""" ("id" BIGINT, "first name" VARCHAR)');
+  });
+
+  test("renders typed literals", () => {
+    expect(toSqlLiteral("O'Brien", "VARCHAR")).toBe("'O''Brien'");
+    expect(toSqlLiteral(new Date(2024, 0, 2), "DATE")).toBe("DATE '2024-01-02'");
+    expect(toSqlLiteral(new Date(2024, 0, 2, 3, 4, 5), "TIMESTAMP")).toBe("TIMESTAMP '2024-01-02 03:04:05.000'");
+    expect(toSqlLiteral(null, "BIGINT")).toBe("NULL");
+  });
+});
@@ -0,0 +1,243 @@
+import type { ExcelDataType } from "xlsx";
+
+export const COLUMN_TYPES = ["BIGINT", "DOUBLE", "DATE", "TIMESTAMP", "BOOLEAN", "VARCHAR"] as const;
+
+export type ColumnType = (typeof COLUMN_TYPES)[number];
+
+export type CellType = ExcelDataType | null;
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  inferredType: ColumnType;
+}
+
+type ValueKind = "integer" | "double" | "date" | "timestamp" | "boolean" | "text";
+
+function isBlank(value: unknown) {
+  return value === null || value === undefined || (typeof value === "string" && value.trim().length === 0);
+}
+
+function hasTimeComponent(date: Date) {
+  return date.getHours() !== 0 || date.getMinutes() !== 0 || date.getSeconds() !== 0 || date.getMilliseconds() !== 0;
+}
+
+function classifyValue(value: unknown, cellType: CellType): ValueKind {
+  if (cellType === "b" || typeof value === "boolean") {
+    return "boolean";
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return "text";
+    }
+    return hasTimeComponent(value) ? "timestamp" : "date";
+  }
+  if (typeof value === "bigint") {
+    return "integer";
+  }
+  if (typeof value === "number" && cellType !== "s") {
+    if (!Number.isFinite(value)) {
+      return "text";
+    }
+    return Number.isSafeInteger(value) ? "integer" : "double";
+  }
+  // Text cells stay text, so IDs such as "00123" keep their leading zeros
+  return "text";
+}
+
+export function inferColumnType(values: unknown[], cellTypes: CellType[] = []): ColumnType {
+  const kinds = new Set<ValueKind>();
+  values.forEach((value, index) => {
+    if (!isBlank(value)) {
+      kinds.add(classifyValue(value, cellTypes[index] ?? null));
+    }
+  });
+
+  if (kinds.size === 0 || kinds.has("text")) {
+    return "VARCHAR";
+  }
+  if (kinds.size === 1) {
+    const [only] = kinds;
+    switch (only) {
+      case "integer":
+        return "BIGINT";
+      case "double":
+        return "DOUBLE";
+      case "date":
+        return "DATE";
+      case "timestamp":
+        return "TIMESTAMP";
+      case "boolean":
+        return "BOOLEAN";
+      default:
+        return "VARCHAR";
+    }
+  }
+  if ([...kinds].every(kind => kind === "integer" || kind === "double")) {
+    return "DOUBLE";
+  }
+  if ([...kinds].every(kind => kind === "date" || kind === "timestamp")) {
+    return "TIMESTAMP";
+  }
+  return "VARCHAR";
+}
+
+/**
+ * Decides a DuckDB type for every column from the raw cell values and their xlsx cell types.
+ * `overrides` come from the import settings and win over the inferred type.
+ */
+export function inferSheetSchema(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  cellTypes: CellType[][] = [],
+  overrides: Record<string, ColumnType> = {},
+): ColumnSchema[] {
+  return columns.map((name, columnIndex) => {
+    const values = rows.map(row => row[name]);
+    const types = rows.map((_, rowIndex) => cellTypes[rowIndex]?.[columnIndex] ?? null);
+    const inferredType = inferColumnType(values, types);
+    const override = overrides[name];
+    return {
+      name,
+      type: override && COLUMN_TYPES.includes(override) ? override : inferredType,
+      inferredType,
+    };
+  });
+}
+
+export function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteText(text: string) {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+// Spreadsheet dates carry no zone, so keep the wall-clock time the user sees in Excel
+function formatLocalDate(date: Date) {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatLocalTimestamp(date: Date) {
+  return `${formatLocalDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function valueToText(value: unknown) {
+  if (value instanceof Date) {
+    return hasTimeComponent(value) ? formatLocalTimestamp(value) : formatLocalDate(value);
+  }
+  return String(value);
+}
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DATE_TEXT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+const TRUE_TEXT = new Set(["true", "t", "yes", "y", "1"]);
+const FALSE_TEXT = new Set(["false", "f", "no", "n", "0"]);
+
+/**
+ * Parses ISO-like `YYYY-MM-DD[ HH:MM[:SS[.fff]]]` text as a local wall-clock date.
+ */
+export function parseDateText(text: string) {
+  const match = DATE_TEXT_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", millis = "0"] = match;
+  const date = new Date(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+    Number(millis.padEnd(3, "0")),
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Converts a cell to the JS value that represents it in a column of the given type.
+ * Values that cannot be converted (e.g. text in a column overridden to BIGINT) become null.
+ * Dates are returned as local wall-clock `Date`s, matching how xlsx reads them.
+ */
+export function coerceValue(value: unknown, type: ColumnType): number | bigint | boolean | Date | string | null {
+  if (isBlank(value)) {
+    return null;
+  }
+  const text = typeof value === "string" ? value.trim() : null;
+  switch (type) {
+    case "BIGINT":
+      if (typeof value === "bigint" || (typeof value === "number" && Number.isSafeInteger(value))) {
+        return value;
+      }
+      if (text !== null && INTEGER_PATTERN.test(text)) {
+        const parsed = BigInt(text);
+        return parsed >= BigInt(Number.MIN_SAFE_INTEGER) && parsed <= BigInt(Number.MAX_SAFE_INTEGER)
+          ? Number(parsed)
+          : parsed;
+      }
+      return null;
+    case "DOUBLE":
+      if (typeof value === "number" || typeof value === "bigint") {
+        const numeric = Number(value);
+        return Number.isFinite(numeric) ? numeric : null;
+      }
+      if (text !== null) {
+        const numeric = Number(text);
+        return Number.isFinite(numeric) ? numeric : null;
+      }
+      return null;
+    case "BOOLEAN":
+      if (typeof value === "boolean") {
+        return value;
+      }
+      if (text !== null || typeof value === "number") {
+        const normalised = String(text ?? value).toLowerCase();
+        return TRUE_TEXT.has(normalised) ? true : FALSE_TEXT.has(normalised) ? false : null;
+      }
+      return null;
+    case "DATE":
+    case "TIMESTAMP": {
+      const date = value instanceof Date ? value : text !== null ? parseDateText(text) : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        return null;
+      }
+      return type === "DATE" ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : date;
+    }
+    case "VARCHAR":
+      return valueToText(value);
+  }
+}
+
+/**
+ * Renders a cell as a SQL literal of the given column type, using the same
+ * conversion rules as {@link coerceValue}.
+ */
+export function toSqlLiteral(value: unknown, type: ColumnType): string {
+  const coerced = coerceValue(value, type);
+  if (coerced === null) {
+    return "NULL";
+  }
+  switch (type) {
+    case "BIGINT":
+    case "DOUBLE":
+      return String(coerced);
+    case "BOOLEAN":
+      return coerced ? "TRUE" : "FALSE";
+    case "DATE":
+      return `DATE ${quoteText(formatLocalDate(coerced as Date))}`;
+    case "TIMESTAMP":
+      return `TIMESTAMP ${quoteText(formatLocalTimestamp(coerced as Date))}`;
+    case "VARCHAR":
+      return quoteText(String(coerced));
+  }
+}
+
+export function buildCreateTableSql(tableName: string, schema: ColumnSchema[]) {
+  const columns = schema.map(column => `${quoteIdentifier(column.name)} ${column.type}`).join(", ");
+  return `CREATE TABLE ${quoteIdentifier(tableName)} (${columns})`;
+}
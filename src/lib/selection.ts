@@ -1,9 +1,11 @@
 import { utils } from "xlsx";
 import type { ParsedSheet, ParsedWorkbook } from "./excel";
+import { inferSheetSchema, type CellType, type ColumnSchema, type ColumnType } from "./schema";
 
 export interface SheetSelection {
   range?: string;
   firstRowIsHeader?: boolean;
+  columnTypes?: Record<string, ColumnType>;
 }
 
 export interface WorkbookSelectionConfig {
@@ -14,7 +16,9 @@ export interface ProcessedSheet {
   name: string;
   columns: string[];
   rows: Record<string, unknown>[];
-  csv: string;
+  schema: ColumnSchema[];
+  /** Matrix position of the first data row and column, so row `i`, column `j` maps back to the source cell */
+  dataOrigin: { row: number; column: number };
 }
 
 export interface ProcessedWorkbook {
@@ -28,44 +32,76 @@ function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value));
 }
 
-function buildColumnsFromHeaderRow(headerRow: unknown[], width: number) {
-  return Array.from({ length: width }, (_, index) => {
-    const raw = headerRow[index];
-    const value = typeof raw === "string" ? raw.trim() : raw === null || raw === undefined ? "" : String(raw).trim();
-    return value.length > 0 ? value : `${FALLBACK_COLUMN_PREFIX}_${index + 1}`;
+// DuckDB identifiers are case-insensitive, so "Name" and "name" would collide in CREATE TABLE
+function dedupeColumns(columns: string[]) {
+  const seen = new Set<string>();
+  return columns.map(column => {
+    let candidate = column;
+    let suffix = 2;
+    while (seen.has(candidate.toLowerCase())) {
+      candidate = `${column}_${suffix}`;
+      suffix += 1;
+    }
+    seen.add(candidate.toLowerCase());
+    return candidate;
   });
 }
 
+function buildColumnsFromHeaderRow(headerRow: unknown[], width: number) {
+  return dedupeColumns(
+    Array.from({ length: width }, (_, index) => {
+      const raw = headerRow[index];
+      const value =
+        typeof raw === "string" ? raw.trim() : raw === null || raw === undefined ? "" : String(raw).trim();
+      return value.length > 0 ? value : `${FALLBACK_COLUMN_PREFIX}_${index + 1}`;
+    }),
+  );
+}
+
 function buildGeneratedColumns(width: number) {
   return Array.from({ length: width }, (_, index) => `${FALLBACK_COLUMN_PREFIX}_${index + 1}`);
 }
 
-function extractRangeMatrix(matrix: unknown[][], range?: string): unknown[][] {
+interface RangeBounds {
+  startRow: number;
+  endRow: number;
+  startCol: number;
+  endCol: number;
+}
+
+function resolveRangeBounds(matrix: unknown[][], range?: string): RangeBounds | null {
   if (!range) {
-    return matrix;
+    return null;
   }
   try {
     const decoded = utils.decode_range(range);
     const maxRow = matrix.length > 0 ? matrix.length - 1 : 0;
     const maxCol = matrix.reduce((acc, row) => Math.max(acc, row.length - 1), 0);
-    const startRow = clamp(decoded.s.r, 0, maxRow);
-    const endRow = clamp(decoded.e.r, 0, maxRow);
-    const startCol = clamp(decoded.s.c, 0, maxCol);
-    const endCol = clamp(decoded.e.c, 0, maxCol);
-
-    const result: unknown[][] = [];
-    for (let r = startRow; r <= endRow; r += 1) {
-      const sourceRow = matrix[r] ?? [];
-      const newRow: unknown[] = [];
-      for (let c = startCol; c <= endCol; c += 1) {
-        newRow.push(sourceRow[c] ?? null);
-      }
-      result.push(newRow);
-    }
-    return result;
+    return {
+      startRow: clamp(decoded.s.r, 0, maxRow),
+      endRow: clamp(decoded.e.r, 0, maxRow),
+      startCol: clamp(decoded.s.c, 0, maxCol),
+      endCol: clamp(decoded.e.c, 0, maxCol),
+    };
   } catch {
+    return null;
+  }
+}
+
+function extractRangeMatrix<T>(matrix: T[][], bounds: RangeBounds | null): (T | null)[][] {
+  if (!bounds) {
     return matrix;
   }
+  const result: (T | null)[][] = [];
+  for (let r = bounds.startRow; r <= bounds.endRow; r += 1) {
+    const sourceRow = matrix[r] ?? [];
+    const newRow: (T | null)[] = [];
+    for (let c = bounds.startCol; c <= bounds.endCol; c += 1) {
+      newRow.push(sourceRow[c] ?? null);
+    }
+    result.push(newRow);
+  }
+  return result;
 }
 
 function matrixToRows(matrix: unknown[][], columns: string[], headerIncluded: boolean) {
@@ -80,46 +116,55 @@ function matrixToRows(matrix: unknown[][], columns: string[], headerIncluded: bo
   });
 }
 
-function rowsToCsv(columns: string[], rows: Record<string, unknown>[]) {
+function serialiseCsvValue(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function rowsToCsv(columns: string[], rows: Record<string, unknown>[]) {
   if (columns.length === 0) {
     return "";
   }
-  const header = columns.join(",");
-  const lines = rows.map(row =>
-    columns
-      .map(column => {
-        const value = row[column];
-        if (value === null || value === undefined) {
-          return "";
-        }
-        if (typeof value === "number" || typeof value === "bigint") {
-          return String(value);
-        }
-        if (value instanceof Date) {
-          return value.toISOString();
-        }
-        const text = String(value);
-        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
-      })
-      .join(","),
-  );
-  return [header, ...lines].join("\n");
+  const header = columns.map(serialiseCsvValue).join(",");
+  return rows.length > 0 ? `${header}\n${rowsToCsvLines(columns, rows)}` : header;
+}
+
+/** CSV lines without the header row, e.g. to append a batch of rows to an export */
+export function rowsToCsvLines(columns: string[], rows: Record<string, unknown>[]) {
+  return rows.map(row => columns.map(column => serialiseCsvValue(row[column])).join(",")).join("\n");
 }
 
 function processSheet(sheet: ParsedSheet, selection?: SheetSelection): ProcessedSheet {
   const trimmedRange = selection?.range?.trim();
-  const targetMatrix = extractRangeMatrix(sheet.matrix, trimmedRange ? trimmedRange : undefined);
+  // Cell types have the same shape as the matrix, so the same bounds apply to both
+  const bounds = resolveRangeBounds(sheet.matrix, trimmedRange ? trimmedRange : undefined);
+  const targetMatrix = extractRangeMatrix(sheet.matrix, bounds);
+  const targetCellTypes = extractRangeMatrix<CellType>(sheet.cellTypes ?? [], bounds);
+  const headerIncluded = selection?.firstRowIsHeader !== false;
+  const dataOrigin = {
+    row: (bounds?.startRow ?? 0) + (headerIncluded ? 1 : 0),
+    column: bounds?.startCol ?? 0,
+  };
 
   if (targetMatrix.length === 0) {
     return {
       name: sheet.name,
       columns: [],
       rows: [],
-      csv: "",
+      schema: [],
+      dataOrigin,
     };
   }
 
-  const headerIncluded = selection?.firstRowIsHeader !== false;
   const width = targetMatrix.reduce((max, row) => Math.max(max, row.length), 0);
 
   if (width === 0) {
@@ -127,20 +172,23 @@ function processSheet(sheet: ParsedSheet, selection?: SheetSelection): Processed
       name: sheet.name,
       columns: [],
       rows: [],
-      csv: "",
+      schema: [],
+      dataOrigin,
     };
   }
 
   const headerRow = targetMatrix[0] ?? [];
   const columns = headerIncluded ? buildColumnsFromHeaderRow(headerRow, width) : buildGeneratedColumns(width);
   const rows = matrixToRows(targetMatrix, columns, headerIncluded);
-  const csv = rowsToCsv(columns, rows);
+  const dataCellTypes = headerIncluded ? targetCellTypes.slice(1) : targetCellTypes;
+  const schema = inferSheetSchema(columns, rows, dataCellTypes, selection?.columnTypes);
 
   return {
     name: sheet.name,
     columns,
     rows,
-    csv,
+    schema,
+    dataOrigin,
   };
 }
 
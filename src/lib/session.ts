@@ -0,0 +1,123 @@
+import type { ParsedWorkbook } from "./excel";
+import { dropTable, registerArrowTable } from "./duckdb";
+import type { ProcessedSheet, ProcessedWorkbook, WorkbookSelectionConfig } from "./selection";
+
+export interface SheetTableMapping {
+  [sheetName: string]: string;
+}
+
+export interface SessionWorkbook {
+  id: string;
+  namespace: string;
+  raw: ParsedWorkbook;
+  config: WorkbookSelectionConfig;
+  processed: ProcessedWorkbook;
+  tableMap: SheetTableMapping;
+}
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function withUniqueSuffix(base: string, taken: Iterable<string>) {
+  const names = new Set(taken);
+  if (!names.has(base)) {
+    return base;
+  }
+  let suffix = 2;
+  while (names.has(`${base}_${suffix}`)) {
+    suffix += 1;
+  }
+  return `${base}_${suffix}`;
+}
+
+/**
+ * Picks the table name prefix for a workbook. Workbooks whose file names
+ * normalise to the same prefix get a numeric suffix so their tables never collide.
+ */
+export function createWorkbookNamespace(fileName: string, takenNamespaces: string[]) {
+  return withUniqueSuffix(slugify(fileName.replace(/\.[^/.]+$/, "")) || "workbook", takenNamespaces);
+}
+
+/**
+ * The table name for a sheet. Different sheet names can slugify to the same table name, within a
+ * workbook ("Q1 Sales" and "Q1-Sales") or across workbooks ("a" with sheet "b_c" and "a_b" with
+ * sheet "c"), so names already taken get a numeric suffix.
+ */
+export function normaliseTableName(
+  namespace: string,
+  sheetName: string,
+  index: number,
+  takenNames: Iterable<string> = [],
+) {
+  const baseName = slugify(`${namespace}_${sheetName || `sheet_${index + 1}`}`);
+  return withUniqueSuffix(baseName.length > 0 ? baseName : `sheet_${index + 1}`, takenNames);
+}
+
+export function createDefaultSelectionConfig(parsed: ParsedWorkbook): WorkbookSelectionConfig {
+  const sheetsConfig: NonNullable<WorkbookSelectionConfig["sheets"]> = {};
+  parsed.sheets.forEach(sheet => {
+    sheetsConfig[sheet.name] = {
+      range: "",
+      firstRowIsHeader: true,
+    };
+  });
+  return { sheets: sheetsConfig };
+}
+
+export function hasSheetData(sheet: ProcessedSheet) {
+  return sheet.rows.length > 0 && sheet.columns.length > 0;
+}
+
+export function findFirstSheetWithData(processed: ProcessedWorkbook) {
+  return processed.sheets.find(hasSheetData) ?? processed.sheets[0] ?? null;
+}
+
+export function collectTableNames(workbooks: SessionWorkbook[]) {
+  return workbooks.flatMap(workbook => Object.values(workbook.tableMap));
+}
+
+/**
+ * Registers every non-empty sheet of a workbook under its namespace and drops
+ * the tables from the previous mapping that are no longer produced.
+ * Tables belonging to other workbooks in the session (`otherTables`) are never touched
+ * and their names are never reused.
+ */
+export async function syncWorkbookTables(
+  namespace: string,
+  processed: ProcessedWorkbook,
+  previousMap: SheetTableMapping = {},
+  otherTables: string[] = [],
+): Promise<SheetTableMapping> {
+  const newMap: SheetTableMapping = {};
+  const takenNames = new Set(otherTables);
+  for (const [index, sheet] of processed.sheets.entries()) {
+    if (!hasSheetData(sheet)) {
+      continue;
+    }
+
+    const tableName = normaliseTableName(namespace, sheet.name, index, takenNames);
+    takenNames.add(tableName);
+
+    try {
+      await registerArrowTable(tableName, sheet.schema, sheet.rows);
+      newMap[sheet.name] = tableName;
+    } catch (err) {
+      console.error(`Failed to register table ${tableName}:`, err);
+      throw err;
+    }
+  }
+
+  const activeTables = new Set(Object.values(newMap));
+  const staleTables = Object.values(previousMap).filter(name => !activeTables.has(name));
+  await Promise.all(staleTables.map(name => dropTable(name)));
+
+  return newMap;
+}
+
+export async function dropWorkbookTables(tableMap: SheetTableMapping) {
+  await Promise.all(Object.values(tableMap).map(name => dropTable(name)));
+}
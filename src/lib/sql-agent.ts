@@ -0,0 +1,95 @@
+import { assertSingleSelectStatement } from "./grid-query";
+import {
+  getSQLQuerySuggestion,
+  type ConversationTurn,
+  type QuerySuggestion,
+  type QuerySuggestionOptions,
+} from "./llm-client";
+import type { PromptTableSchema } from "./privacy";
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export interface RepairAttempt {
+  query: string;
+  explanation: string;
+  /** DuckDB's error for this candidate, null when it validated */
+  error: string | null;
+}
+
+export interface ValidatedSuggestion extends QuerySuggestion {
+  /** True when the final query prepared as a single SELECT-like statement */
+  valid: boolean;
+  attempts: RepairAttempt[];
+}
+
+export interface ValidatedSuggestionOptions extends QuerySuggestionOptions {
+  /** How many times a rejected query is sent back to the model for repair */
+  maxRepairAttempts?: number;
+  /** Called whenever an attempt has been validated, with the trace so far */
+  onAttempt?: (attempts: RepairAttempt[]) => void;
+  onValidating?: (query: string) => void;
+}
+
+/**
+ * Prepares the query so parser, binder and catalog errors surface without running it. Anything
+ * but a single SELECT-like statement is rejected, since `EXPLAIN` on a statement list would
+ * execute the statements after the first. Returns the error message, or null when the query is valid.
+ */
+export async function validateQuery(sql: string): Promise<string | null> {
+  try {
+    await assertSingleSelectStatement(sql);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Asks the model for a query and checks it against DuckDB. A rejected query is sent back
+ * together with the error until it validates or `maxRepairAttempts` repairs have been tried.
+ */
+export async function getValidatedQuerySuggestion(
+  userQuestion: string,
+  availableTables: string[],
+  tableSchemas?: Record<string, PromptTableSchema>,
+  {
+    maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS,
+    onAttempt,
+    onValidating,
+    history = [],
+    ...options
+  }: ValidatedSuggestionOptions = {},
+): Promise<ValidatedSuggestion> {
+  const attempts: RepairAttempt[] = [];
+  let turns: ConversationTurn[] = history;
+  let question = userQuestion;
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt += 1) {
+    const suggestion = await getSQLQuerySuggestion(question, availableTables, tableSchemas, {
+      ...options,
+      history: turns,
+    });
+    if (!suggestion.query.trim()) {
+      return { ...suggestion, valid: false, attempts };
+    }
+
+    onValidating?.(suggestion.query);
+    const error = await validateQuery(suggestion.query);
+    options.signal?.throwIfAborted();
+    attempts.push({ query: suggestion.query, explanation: suggestion.explanation, error });
+    onAttempt?.([...attempts]);
+    if (!error) {
+      return { ...suggestion, valid: true, attempts };
+    }
+
+    turns = [
+      ...turns,
+      { role: "user", content: question },
+      { role: "assistant", content: suggestion.explanation, query: suggestion.query, execution: { status: "error", error } },
+    ];
+    question = `DuckDB rejected that query with this error:\n${error}\nReturn a corrected query for my original question: ${userQuestion}`;
+  }
+
+  const last = attempts[attempts.length - 1]!;
+  return { query: last.query, explanation: last.explanation, valid: false, attempts };
+}
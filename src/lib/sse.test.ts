@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { encodeServerSentEvent, readServerSentEvents } from "./sse";
+
+function streamOf(chunks: (string | Uint8Array)[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(chunks: (string | Uint8Array)[]) {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(streamOf(chunks))) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  test("yields the data of each event", async () => {
+    expect(await readAll(["data: one\n\ndata:two\r\n\r\n"])).toEqual(["one", "two"]);
+  });
+
+  test("joins multi-line data and ignores comments and other fields", async () => {
+    expect(await readAll([": keep-alive\n\nevent: delta\ndata: a\ndata: b\nid: 1\n\n"])).toEqual(["a\nb"]);
+  });
+
+  test("reassembles events and characters split across chunks", async () => {
+    // "é" takes two bytes, and the split falls between them
+    const bytes = new TextEncoder().encode("data: héllo\n\n");
+    expect(await readAll([bytes.slice(0, 8), bytes.slice(8), "data: x", "yz\n", "\n"])).toEqual(["héllo", "xyz"]);
+  });
+
+  test("yields a final event without a trailing blank line", async () => {
+    expect(await readAll(["data: last"])).toEqual(["last"]);
+  });
+
+  test("decodes what encodeServerSentEvent writes", async () => {
+    const events = [{ type: "delta", content: "line 1\nline 2" }, { type: "done" }];
+    const decoded = await readAll(events.map(encodeServerSentEvent));
+    expect(decoded.map(data => JSON.parse(data))).toEqual(events);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Reads a `text/event-stream` body and yields the data payload of each event.
+ * Multi-line data fields are joined with newlines; comments and other fields are ignored.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      if (done) {
+        break;
+      }
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) {
+            yield data.join("\n");
+            data = [];
+          }
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(line.startsWith("data: ") ? 6 : 5));
+        }
+      }
+    }
+    if (buffer.startsWith("data:")) {
+      data.push(buffer.slice(buffer.startsWith("data: ") ? 6 : 5));
+    }
+    if (data.length > 0) {
+      yield data.join("\n");
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function encodeServerSentEvent(payload: unknown) {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { handleChatRequest } from "./chat-proxy";
+
+const LIMIT_VARIABLES = ["CHAT_RATE_LIMIT_PER_MINUTE", "CHAT_SESSION_TOKEN_BUDGET", "CHAT_IP_RATE_LIMIT_PER_MINUTE"];
+
+// Each test uses its own client address so per-address limits do not carry over
+let addressCounter = 0;
+let address = "";
+
+function chatRequest(cookie: string | null, content = "How many rows are there?") {
+  return new Request("http://localhost/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+    body: JSON.stringify({ messages: [{ role: "user", content }] }),
+  });
+}
+
+/** The `name=value` part of the session cookie a response sets */
+function sessionCookie(response: Response) {
+  return response.headers.get("Set-Cookie")?.split(";")[0] ?? null;
+}
+
+async function startSession() {
+  const response = await handleChatRequest(chatRequest(null), address);
+  expect(response.status).toBe(200);
+  return sessionCookie(response)!;
+}
+
+beforeEach(() => {
+  process.env.LLM_PROVIDER = "mock";
+  address = `10.0.0.${++addressCounter}`;
+});
+
+afterEach(() => {
+  LIMIT_VARIABLES.forEach(name => delete process.env[name]);
+});
+
+describe("session cookies", () => {
+  test("issues a signed session on the first request and accepts it afterwards", async () => {
+    const cookie = await startSession();
+    expect(cookie).toMatch(/^ew_session=[\w-]+\.[\w-]+$/);
+
+    const response = await handleChatRequest(chatRequest(cookie), address);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+    expect(await response.json()).toMatchObject({ content: "Mock response for: How many rows are there?" });
+  });
+
+  test("refuses a cookie whose signature does not match and issues a new one", async () => {
+    const cookie = await startSession();
+    const [id] = cookie.split(".");
+    const response = await handleChatRequest(chatRequest(`${id}.forged`), address);
+    expect(response.status).toBe(401);
+    expect(sessionCookie(response)).not.toBe(cookie);
+  });
+
+  test("refuses a session id this server never issued", async () => {
+    const response = await handleChatRequest(chatRequest(`ew_session=${crypto.randomUUID()}.abc`), address);
+    expect(response.status).toBe(401);
+  });
+});
+
+describe("limits", () => {
+  test("rate limits each session", async () => {
+    process.env.CHAT_RATE_LIMIT_PER_MINUTE = "2";
+    const cookie = await startSession();
+    expect((await handleChatRequest(chatRequest(cookie), address)).status).toBe(200);
+
+    const limited = await handleChatRequest(chatRequest(cookie), address);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  test("rate limits each client address across sessions", async () => {
+    process.env.CHAT_IP_RATE_LIMIT_PER_MINUTE = "2";
+    await startSession();
+    await startSession();
+    expect((await handleChatRequest(chatRequest(null), address)).status).toBe(429);
+    expect((await handleChatRequest(chatRequest(null), "10.1.0.1")).status).toBe(200);
+  });
+
+  test("reserves tokens before forwarding and keeps only the reported usage", async () => {
+    process.env.CHAT_SESSION_TOKEN_BUDGET = "100";
+    const first = await handleChatRequest(chatRequest(null), address);
+    const cookie = sessionCookie(first);
+    const firstUsage = (await first.json()).usage.totalTokens;
+
+    // The estimated prompt alone would not fit in what is left
+    const tooLong = await handleChatRequest(chatRequest(cookie, "x".repeat(400)), address);
+    expect(tooLong.status).toBe(429);
+
+    const second = await handleChatRequest(chatRequest(cookie), address);
+    const { usage, remainingTokens } = await second.json();
+    expect(remainingTokens).toBe(100 - firstUsage - usage.totalTokens);
+  });
+});
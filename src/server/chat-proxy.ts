@@ -0,0 +1,362 @@
+import type {
+  ChatErrorResponse,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ChatUsage,
+} from "../lib/chat-protocol";
+import { encodeServerSentEvent } from "../lib/sse";
+import { getConfiguredProvider, type LLMCompletion, type LLMCompletionRequest, type LLMProvider } from "./llm-providers";
+
+interface ChatLimits {
+  requestsPerMinute: number;
+  sessionTokenBudget: number;
+  ipRequestsPerMinute: number;
+  ipTokenBudget: number;
+  globalRequestsPerMinute: number;
+  maxTokensPerRequest: number;
+  maxPromptCharacters: number;
+}
+
+/** Requests and tokens of a session or a client address */
+interface SessionUsage {
+  requestTimes: number[];
+  tokensUsed: number;
+  lastSeen: number;
+}
+
+const SESSION_COOKIE = "ew_session";
+const RATE_WINDOW_MS = 60_000;
+const SESSION_IDLE_MS = 24 * 60 * 60 * 1000;
+// Least recently used entries are dropped past these sizes, even when not idle yet
+const MAX_SESSIONS = 10_000;
+const MAX_CLIENT_ADDRESSES = 10_000;
+const MESSAGE_ROLES = new Set<ChatMessage["role"]>(["system", "user", "assistant"]);
+
+// Maps keep insertion order, and entries are re-inserted when used, so the first entry is always the least recent
+const sessions = new Map<string, SessionUsage>();
+const clientAddresses = new Map<string, SessionUsage>();
+const globalUsage: Pick<SessionUsage, "requestTimes"> = { requestTimes: [] };
+
+// Without a configured secret, sessions last until the server restarts, like the usage they track
+const sessionSecret = process.env.CHAT_SESSION_SECRET || crypto.randomUUID();
+
+function readPositiveInt(name: string, fallback: number) {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function readLimits(): ChatLimits {
+  return {
+    requestsPerMinute: readPositiveInt("CHAT_RATE_LIMIT_PER_MINUTE", 10),
+    sessionTokenBudget: readPositiveInt("CHAT_SESSION_TOKEN_BUDGET", 50_000),
+    ipRequestsPerMinute: readPositiveInt("CHAT_IP_RATE_LIMIT_PER_MINUTE", 30),
+    ipTokenBudget: readPositiveInt("CHAT_IP_TOKEN_BUDGET", 200_000),
+    globalRequestsPerMinute: readPositiveInt("CHAT_GLOBAL_RATE_LIMIT_PER_MINUTE", 120),
+    maxTokensPerRequest: readPositiveInt("CHAT_MAX_TOKENS_PER_REQUEST", 1000),
+    maxPromptCharacters: readPositiveInt("CHAT_MAX_PROMPT_CHARACTERS", 100_000),
+  };
+}
+
+function signSessionId(id: string) {
+  return new Bun.CryptoHasher("sha256", sessionSecret).update(id).digest("base64url");
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+/** The session id of a cookie value like `<id>.<signature>`, or null when it was not issued by this server */
+function verifySessionCookie(value: string) {
+  const separator = value.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+  const id = value.slice(0, separator);
+  return timingSafeEqual(value.slice(separator + 1), signSessionId(id)) ? id : null;
+}
+
+function readSessionCookie(req: Request) {
+  const cookies = req.headers.get("cookie") ?? "";
+  for (const part of cookies.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return value.join("=");
+    }
+  }
+  return null;
+}
+
+/** Starts a session and returns the cookie header that hands it to the browser */
+function issueSession(now: number) {
+  const id = crypto.randomUUID();
+  touchUsage(sessions, id, now, MAX_SESSIONS);
+  return { id, cookie: `${SESSION_COOKIE}=${id}.${signSessionId(id)}; Path=/api; HttpOnly; SameSite=Strict` };
+}
+
+/**
+ * Returns the usage for `key`, creating it when missing, and marks it as the most recently used.
+ * Idle and surplus entries are dropped from the least recent end, so each call only looks at
+ * the entries it removes.
+ */
+function touchUsage(usage: Map<string, SessionUsage>, key: string, now: number, maxEntries: number) {
+  const entry = usage.get(key) ?? { requestTimes: [], tokensUsed: 0, lastSeen: now };
+  usage.delete(key);
+  entry.lastSeen = now;
+  usage.set(key, entry);
+  for (const [oldestKey, oldest] of usage) {
+    if (usage.size <= maxEntries && now - oldest.lastSeen <= SESSION_IDLE_MS) {
+      break;
+    }
+    usage.delete(oldestKey);
+  }
+  return entry;
+}
+
+/** Drops request times that left the rate window and returns the seconds until the next slot, or 0 */
+function checkRateLimit(usage: { requestTimes: number[] }, limit: number, now: number) {
+  usage.requestTimes = usage.requestTimes.filter(time => now - time < RATE_WINDOW_MS);
+  if (usage.requestTimes.length < limit) {
+    return 0;
+  }
+  return Math.ceil((RATE_WINDOW_MS - (now - usage.requestTimes[0]!)) / 1000);
+}
+
+/** The client address used for per-address limits; the proxy header is only trusted when configured */
+function readClientAddress(req: Request, socketAddress: string | null) {
+  if (process.env.CHAT_TRUST_PROXY === "true") {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  return socketAddress ?? "unknown";
+}
+
+function jsonResponse(body: ChatResponse | ChatErrorResponse, status: number, headers: Record<string, string>) {
+  return Response.json(body, { status, headers });
+}
+
+function parseChatRequest(body: unknown): ChatRequest | null {
+  if (!body || typeof body !== "object") {
+    return null;
+  }
+  const { messages, responseFormat, temperature, maxTokens, stream } = body as Record<string, unknown>;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return null;
+  }
+  const valid = messages.every(
+    message =>
+      message &&
+      typeof message === "object" &&
+      MESSAGE_ROLES.has((message as ChatMessage).role) &&
+      typeof (message as ChatMessage).content === "string",
+  );
+  if (!valid) {
+    return null;
+  }
+  return {
+    messages: (messages as ChatMessage[]).map(({ role, content }) => ({ role, content })),
+    responseFormat: responseFormat && typeof responseFormat === "object" ? (responseFormat as ChatRequest["responseFormat"]) : undefined,
+    temperature: typeof temperature === "number" ? Math.min(Math.max(temperature, 0), 2) : undefined,
+    maxTokens: typeof maxTokens === "number" && maxTokens > 0 ? Math.floor(maxTokens) : undefined,
+    stream: stream === true,
+  };
+}
+
+// Used when the provider reports no token usage (roughly four characters per token)
+function estimateUsage(messages: ChatMessage[], content: string): ChatUsage {
+  const promptTokens = Math.ceil(messages.reduce((total, message) => total + message.content.length, 0) / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Relays the provider's chunks as `ChatStreamEvent`s. Aborting the browser request closes
+ * `req.signal`, which cancels the upstream request; the tokens streamed so far still count.
+ */
+function streamCompletion(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  settleUsage: (usage: ChatUsage) => number,
+  headers: Record<string, string>,
+) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeServerSentEvent(event)));
+      let content = "";
+      let usage: ChatUsage | undefined;
+      let failure: unknown = null;
+      try {
+        for await (const chunk of provider.stream(request)) {
+          if (chunk.content) {
+            content += chunk.content;
+            send({ type: "delta", content: chunk.content });
+          }
+          usage = chunk.usage ?? usage;
+        }
+      } catch (error) {
+        failure = error;
+      }
+
+      const finalUsage = usage ?? estimateUsage(request.messages, content);
+      const remainingTokens = settleUsage(finalUsage);
+      try {
+        if (!failure) {
+          send({ type: "done", usage: finalUsage, remainingTokens });
+        } else if (!request.signal?.aborted) {
+          console.error(`${provider.label} stream failed:`, failure);
+          send({ type: "error", error: failure instanceof Error ? failure.message : `${provider.label} request failed` });
+        }
+        controller.close();
+      } catch {
+        // The client already went away
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
+
+/**
+ * Handles `POST /api/chat`: applies the per-session, per-address and global limits, then forwards
+ * the chat completion to the configured LLM provider. Credentials never leave the server.
+ * The estimated prompt and the completion limit are reserved from the token budgets up front and
+ * settled against the reported usage afterwards.
+ * Sessions are signed cookies issued here; forged, expired or evicted ones are refused with a new one.
+ */
+export async function handleChatRequest(req: Request, socketAddress: string | null): Promise<Response> {
+  const headers: Record<string, string> = {};
+  const now = Date.now();
+  const cookie = readSessionCookie(req);
+  const verifiedId = cookie ? verifySessionCookie(cookie) : null;
+  if (cookie && (!verifiedId || !sessions.has(verifiedId))) {
+    const issued = issueSession(now);
+    return jsonResponse({ error: "Your chat session has expired. Send the message again." }, 401, {
+      "Set-Cookie": issued.cookie,
+    });
+  }
+  let sessionId = verifiedId;
+  if (!sessionId) {
+    const issued = issueSession(now);
+    sessionId = issued.id;
+    headers["Set-Cookie"] = issued.cookie;
+  }
+
+  let provider: LLMProvider | null;
+  try {
+    provider = getConfiguredProvider();
+  } catch (error) {
+    console.error("Invalid LLM provider configuration:", error);
+    provider = null;
+  }
+  if (!provider) {
+    return jsonResponse(
+      { error: "The chat assistant is not configured. Copy .env.example to .env and fill in an LLM provider." },
+      503,
+      headers,
+    );
+  }
+
+  let chatRequest: ChatRequest | null = null;
+  try {
+    chatRequest = parseChatRequest(await req.json());
+  } catch {
+    chatRequest = null;
+  }
+  if (!chatRequest) {
+    return jsonResponse({ error: "Invalid chat request" }, 400, headers);
+  }
+
+  const limits = readLimits();
+  const promptCharacters = chatRequest.messages.reduce((total, message) => total + message.content.length, 0);
+  if (promptCharacters > limits.maxPromptCharacters) {
+    return jsonResponse({ error: "The prompt is too large" }, 413, headers);
+  }
+
+  const session = touchUsage(sessions, sessionId, now, MAX_SESSIONS);
+  const client = touchUsage(clientAddresses, readClientAddress(req, socketAddress), now, MAX_CLIENT_ADDRESSES);
+  const retryAfter = Math.max(
+    checkRateLimit(session, limits.requestsPerMinute, now),
+    checkRateLimit(client, limits.ipRequestsPerMinute, now),
+    checkRateLimit(globalUsage, limits.globalRequestsPerMinute, now),
+  );
+  if (retryAfter > 0) {
+    return jsonResponse({ error: `Too many requests. Try again in ${retryAfter}s.` }, 429, {
+      ...headers,
+      "Retry-After": String(retryAfter),
+    });
+  }
+  const remainingBudget = Math.min(
+    limits.sessionTokenBudget - session.tokensUsed,
+    limits.ipTokenBudget - client.tokensUsed,
+  );
+  if (remainingBudget <= 0) {
+    return jsonResponse({ error: "The token budget for this session or network address is used up." }, 429, headers);
+  }
+  const promptTokens = estimateUsage(chatRequest.messages, "").promptTokens;
+  if (promptTokens >= remainingBudget) {
+    return jsonResponse({ error: "The prompt needs more tokens than this session or network address has left." }, 429, headers);
+  }
+  session.requestTimes.push(now);
+  client.requestTimes.push(now);
+  globalUsage.requestTimes.push(now);
+
+  const maxTokens = Math.min(
+    chatRequest.maxTokens ?? limits.maxTokensPerRequest,
+    limits.maxTokensPerRequest,
+    remainingBudget - promptTokens,
+  );
+  // Reserved before forwarding so concurrent requests cannot all pass the budget check above
+  const reservedTokens = promptTokens + maxTokens;
+  session.tokensUsed += reservedTokens;
+  client.tokensUsed += reservedTokens;
+
+  // Replaces the reservation with the tokens actually used and returns the tokens left before either budget runs out
+  const settleUsage = (usage: ChatUsage) => {
+    session.tokensUsed += usage.totalTokens - reservedTokens;
+    client.tokensUsed += usage.totalTokens - reservedTokens;
+    return Math.max(
+      Math.min(limits.sessionTokenBudget - session.tokensUsed, limits.ipTokenBudget - client.tokensUsed),
+      0,
+    );
+  };
+
+  const completionRequest: LLMCompletionRequest = {
+    messages: chatRequest.messages,
+    responseFormat: chatRequest.responseFormat,
+    temperature: chatRequest.temperature ?? 0.7,
+    maxTokens,
+    signal: req.signal,
+  };
+  if (chatRequest.stream) {
+    return streamCompletion(provider, completionRequest, settleUsage, headers);
+  }
+
+  let completion: LLMCompletion;
+  try {
+    completion = await provider.complete(completionRequest);
+  } catch (error) {
+    // Nothing was generated, so the reservation is released
+    settleUsage({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    console.error(`${provider.label} request failed:`, error);
+    return jsonResponse({ error: error instanceof Error ? error.message : `${provider.label} request failed` }, 502, headers);
+  }
+
+  const { content } = completion;
+  const usage = completion.usage ?? estimateUsage(chatRequest.messages, content);
+  const remainingTokens = settleUsage(usage);
+
+  return jsonResponse({ content, usage, remainingTokens }, 200, headers);
+}
@@ -0,0 +1,298 @@
+import type { ChatMessage, ChatUsage, ResponseFormat } from "../lib/chat-protocol";
+import { readServerSentEvents } from "../lib/sse";
+
+export interface LLMCompletionRequest {
+  messages: ChatMessage[];
+  responseFormat?: ResponseFormat;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  /** Null when the backend does not report token usage */
+  usage: ChatUsage | null;
+}
+
+/** A streamed piece of the answer. Usage, when reported, arrives with the last chunk. */
+export interface LLMStreamChunk {
+  content?: string;
+  usage?: ChatUsage;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  complete: (request: LLMCompletionRequest) => Promise<LLMCompletion>;
+  stream: (request: LLMCompletionRequest) => AsyncIterable<LLMStreamChunk>;
+}
+
+interface OpenAIChatCompletion {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: OpenAIChatCompletion["usage"] | null;
+}
+
+function toUsage(usage: OpenAIChatCompletion["usage"]): ChatUsage | null {
+  if (!usage) {
+    return null;
+  }
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
+function buildOpenAIBody(request: LLMCompletionRequest, model?: string) {
+  const body: Record<string, unknown> = {
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  };
+  if (model) {
+    body.model = model;
+  }
+  if (request.responseFormat) {
+    body.response_format = request.responseFormat;
+  }
+  return body;
+}
+
+async function postChatCompletion(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    console.error(`${label} error response:`, response.status, await response.text());
+    throw new Error(`${label} API error: ${response.status}`);
+  }
+  return response;
+}
+
+async function requestCompletion(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<LLMCompletion> {
+  const response = await postChatCompletion(label, url, headers, body, signal);
+  const data = (await response.json()) as OpenAIChatCompletion;
+  return { content: data.choices?.[0]?.message?.content || "No response from AI", usage: toUsage(data.usage) };
+}
+
+async function* streamCompletion(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): AsyncGenerator<LLMStreamChunk> {
+  const response = await postChatCompletion(label, url, headers, { ...body, stream: true }, signal);
+  if (!response.body) {
+    throw new Error(`${label} returned an empty stream`);
+  }
+  for await (const data of readServerSentEvents(response.body)) {
+    if (data === "[DONE]") {
+      break;
+    }
+    const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+    const content = chunk.choices?.[0]?.delta?.content ?? undefined;
+    const usage = toUsage(chunk.usage ?? undefined) ?? undefined;
+    if (content || usage) {
+      yield { content, usage };
+    }
+  }
+}
+
+function readEnv(name: string) {
+  return process.env[name] ?? "";
+}
+
+/**
+ * Azure OpenAI deployments use their own URL layout and an `api-key` header.
+ * The VITE_ prefixed names are still accepted for older .env files.
+ */
+function createAzureProvider(): LLMProvider | null {
+  const read = (name: string) => readEnv(`AZURE_OPENAI_${name}`) || readEnv(`VITE_AZURE_OPENAI_${name}`);
+  const endpoint = read("ENDPOINT").replace(/\/+$/, "");
+  const apiKey = read("API_KEY");
+  const deployment = read("DEPLOYMENT");
+  const apiVersion = read("API_VERSION");
+  if (!endpoint || !apiKey || !deployment || !apiVersion) {
+    return null;
+  }
+  const url = `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+  const headers = { "api-key": apiKey };
+  return {
+    id: "azure",
+    label: "Azure OpenAI",
+    complete: request => requestCompletion("Azure OpenAI", url, headers, buildOpenAIBody(request), request.signal),
+    // Older api-versions reject `stream_options`, so streamed Azure usage is estimated by the proxy
+    stream: request => streamCompletion("Azure OpenAI", url, headers, buildOpenAIBody(request), request.signal),
+  };
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` API: OpenAI itself, Ollama, llama.cpp server, vLLM.
+ * Local servers usually need no API key.
+ */
+function createOpenAICompatibleProvider(): LLMProvider | null {
+  const baseUrl = readEnv("OPENAI_BASE_URL").replace(/\/+$/, "") || "https://api.openai.com/v1";
+  const apiKey = readEnv("OPENAI_API_KEY");
+  const model = readEnv("OPENAI_MODEL");
+  if (!model) {
+    return null;
+  }
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const url = `${baseUrl}/chat/completions`;
+  return {
+    id: "openai",
+    label: `OpenAI-compatible (${model})`,
+    complete: request =>
+      requestCompletion("OpenAI-compatible", url, headers, buildOpenAIBody(request, model), request.signal),
+    stream: request =>
+      streamCompletion(
+        "OpenAI-compatible",
+        url,
+        headers,
+        { ...buildOpenAIBody(request, model), stream_options: { include_usage: true } },
+        request.signal,
+      ),
+  };
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function findFirstTable(messages: ChatMessage[]) {
+  for (const message of messages) {
+    // Schema digests add the row count after the name, e.g. "Table: sales (120 rows)"
+    const match = /^Table: ([^\n]+?)(?: \(\d+ rows\))?$/m.exec(message.content);
+    if (match) {
+      return match[1]!.trim();
+    }
+  }
+  return null;
+}
+
+/** The parts of a JSON schema the mock provider reads; everything else is ignored */
+interface JsonSchemaNode {
+  type?: unknown;
+  anyOf?: unknown;
+  properties?: unknown;
+  enum?: unknown;
+}
+
+function isSchemaNode(value: unknown): value is JsonSchemaNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Fills a JSON schema with fixed values so structured responses always parse
+function mockValue(name: string, schema: JsonSchemaNode, context: { sql: string; prompt: string }): unknown {
+  // Optional parts are nullable unions; leave them out
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf.filter(isSchemaNode);
+    if (options.length === 0 || options.some(option => option.type === "null")) {
+      return null;
+    }
+    return mockValue(name, options[0]!, context);
+  }
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const result: Record<string, unknown> = {};
+      if (isSchemaNode(schema.properties)) {
+        Object.entries(schema.properties).forEach(([key, property]) => {
+          result[key] = mockValue(key, isSchemaNode(property) ? property : {}, context);
+        });
+      }
+      return result;
+    }
+    case "array":
+      return [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    default:
+      if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        return schema.enum[0];
+      }
+      return /query|sql/i.test(name) ? context.sql : `Mock ${name} for: ${context.prompt}`;
+  }
+}
+
+/**
+ * Deterministic provider for tests and demos: the same messages always give the same answer
+ * and nothing leaves the machine.
+ */
+function createMockProvider(): LLMProvider {
+  const complete = async (request: LLMCompletionRequest): Promise<LLMCompletion> => {
+    const prompt = [...request.messages].reverse().find(message => message.role === "user")?.content ?? "";
+    const table = findFirstTable(request.messages);
+    const sql = table ? `SELECT * FROM "${table.replace(/"/g, '""')}" LIMIT 10;` : "SELECT 1;";
+    const content = request.responseFormat
+      ? JSON.stringify(mockValue("response", request.responseFormat.json_schema.schema, { sql, prompt }))
+      : `Mock response for: ${prompt}`;
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join(""));
+    const completionTokens = estimateTokens(content);
+    return { content, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+  };
+
+  return {
+    id: "mock",
+    label: "Mock",
+    complete,
+    // Streams the same answer in fixed eight-character pieces
+    stream: async function* (request) {
+      const { content, usage } = await complete(request);
+      for (let index = 0; index < content.length; index += 8) {
+        if (request.signal?.aborted) {
+          return;
+        }
+        yield { content: content.slice(index, index + 8) };
+      }
+      yield { usage: usage ?? undefined };
+    },
+  };
+}
+
+const providerFactories: Record<string, () => LLMProvider | null> = {
+  azure: createAzureProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: createMockProvider,
+};
+
+export const LLM_PROVIDER_IDS = Object.keys(providerFactories);
+
+/**
+ * Resolves the provider named by `LLM_PROVIDER`. Without it, Azure is used when configured,
+ * then an OpenAI-compatible endpoint. Returns null when nothing is configured.
+ */
+export function getConfiguredProvider(): LLMProvider | null {
+  const requested = readEnv("LLM_PROVIDER").trim().toLowerCase();
+  if (requested) {
+    const factory = providerFactories[requested];
+    if (!factory) {
+      throw new Error(`Unknown LLM_PROVIDER "${requested}". Expected one of: ${LLM_PROVIDER_IDS.join(", ")}`);
+    }
+    return factory();
+  }
+  return createAzureProvider() ?? createOpenAICompatibleProvider();
+}